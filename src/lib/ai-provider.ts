@@ -1,33 +1,67 @@
-import https from 'https';
-import { API, AI_PARAMS } from './constants';
+import sharp from 'sharp';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  DetectedObject,
+  GenerationSettings,
+  ImageModel,
+  ImageProviderName,
+  ParameterRange,
+  Resolution,
+  Scheduler,
+} from '../types';
+import {
+  acquireSlot,
+  getDefaultModel,
+  getProvider,
+  getProviderChain,
+  ImageProvider,
+  ProviderConfigError,
+  ProviderError,
+  ProviderRequest,
+  recordOutcome,
+  releaseCall,
+  resolveModel,
+  tryAcquire,
+} from './providers';
+import { API, AI_PARAMS, IMAGE_LIMITS } from './constants';
 
 /**
- * Custom error class for HuggingFace API errors
- */
-class HuggingFaceError extends Error {
-  statusCode?: number;
-  estimatedTime?: number;
-
-  constructor(message: string, statusCode?: number, estimatedTime?: number) {
-    super(message);
-    this.name = 'HuggingFaceError';
-    this.statusCode = statusCode;
-    this.estimatedTime = estimatedTime;
-  }
-}
-
-/**
- * HuggingFace API configuration
+ * Image generation entry point
+ * 
+ * Generates images through the selected provider (see providers/),
+ * several at a time up to the provider's concurrency limit. The worker
+ * never calls a provider directly.
+ * 
+ * Each image is requested from the selected model first, then from the
+ * default models of the configured fallback providers in order. Providers
+ * whose circuit breaker is open are skipped.
+ * 
+ * Within a provider, failed calls are retried:
+ * - 503 model loading: wait the estimated loading time the provider reports
+ * - 429 / 5xx / network errors: exponential backoff with jitter
+ * - other 4xx and missing configuration: never retried
+ * Each provider call is aborted after API.TIMEOUT_MS and counts as a
+ * network error. Retries for one image stop once API.TIMEOUT_MS has
+ * passed since it was first requested.
+ * 
+ * Aborting the caller's signal (job cancelled or timed out) stops the
+ * provider call in flight and any waiting; the signal's reason is thrown
+ * and no fallback is tried.
+ * 
+ * Images that do not come back at the requested size are cropped and
+ * scaled to it.
  */
-const HF_CONFIG = {
-  MODEL: API.HUGGINGFACE_MODEL,
-  API_URL: `https://router.huggingface.co/hf-inference/models/${API.HUGGINGFACE_MODEL}`,
-} as const;
 
 /**
  * Options for generating images
  */
 interface GenerateImageOptions {
+  /** Backend to generate with (defaults to the IMAGE_PROVIDER env setting) */
+  provider?: ImageProviderName;
+  /** Model id; selects its provider (defaults to the provider's default model) */
+  model?: string;
+  /** Whether to fall back to other providers when it fails (default true) */
+  fallback?: boolean;
   /** The positive prompt describing what to generate */
   prompt: string;
   /** The negative prompt describing what to avoid */
@@ -38,126 +72,458 @@ interface GenerateImageOptions {
   width: number;
   /** Image height in pixels */
   height: number;
+  /** Base seed; image i uses seed + i. Random per image when omitted */
+  seed?: number;
+  /** Classifier-free guidance scale (defaults to the model's default) */
+  guidanceScale?: number;
+  /** Number of denoising steps (defaults to the model's default) */
+  numInferenceSteps?: number;
+  /** Sampling scheduler (defaults to the model's own) */
+  scheduler?: Scheduler;
+  /** Aborted when the job is cancelled or times out */
+  signal?: AbortSignal;
+  /** Called before each image is requested from the provider */
+  onImageStart?: (index: number) => Promise<void>;
+  /** Called before waiting to retry a failed provider call */
+  onRetry?: (retry: RetryInfo, index: number) => Promise<void>;
+  /** Called with each image as soon as it is generated */
+  onImageGenerated?: (image: ProviderImage, index: number) => Promise<void>;
+  /** Called when an image fails on every provider and is skipped */
+  onImageFailed?: (error: unknown, index: number) => Promise<void>;
+}
+
+/**
+ * A generated image together with the seed and provider that produced it
+ */
+export interface ProviderImage {
+  /** Encoded image data */
+  buffer: Buffer;
+  /** Seed sent to the model, absent when the model ignores seeds */
+  seed?: number;
+  /** Provider that produced the image */
+  provider: ImageProviderName;
+  /** Model that produced the image, as identified on the backend */
+  model: string;
+  /** Registry id of that model */
+  modelId: string;
+}
+
+/**
+ * A retry about to happen, reported through onRetry
+ */
+export interface RetryInfo {
+  /** Provider being retried */
+  provider: ImageProviderName;
+  /** Retry number (1-based) */
+  attempt: number;
+  /** Maximum number of retries */
+  maxAttempts: number;
+  /** Wait before the retry, in milliseconds */
+  delayMs: number;
+  /** Why the previous call failed */
+  reason: string;
+}
+
+/**
+ * Wraps an error thrown by a caller's callback so that it is not
+ * mistaken for a provider failure and propagates unchanged
+ */
+class CallbackError extends Error {
+  original: unknown;
+
+  constructor(original: unknown) {
+    super(original instanceof Error ? original.message : 'Callback failed');
+    this.name = 'CallbackError';
+    this.original = original;
+  }
+}
+
+/**
+ * Picks a random seed in the range accepted by diffusion pipelines
+ * 
+ * @returns Random non-negative 32-bit integer
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (AI_PARAMS.MAX_SEED + 1));
 }
 
 /**
- * Calls the HuggingFace Inference API to generate a single image
+ * Asks the provider where the product is in an image it generated
  * 
- * @param prompt - Positive prompt for image generation
- * @param negativePrompt - Negative prompt to avoid unwanted elements
- * @returns Promise resolving to image buffer
- * @throws {HuggingFaceError} If API call fails or model is loading
+ * @param provider - Provider the image was generated with
+ * @param request - Request the image was generated from
+ * @returns The product or null, or undefined if the provider cannot tell
+ *          (object detection is needed instead)
+ */
+export function locateProduct(
+  provider: ImageProviderName | undefined,
+  request: ProviderRequest
+): DetectedObject | null | undefined {
+  const selected = getProvider(provider);
+  return selected.locateProduct ? selected.locateProduct(request) : undefined;
+}
+
+/**
+ * Whether a failed provider call is worth retrying
+ * Network errors, rate limiting and 5xx responses are retried; other 4xx
+ * and missing configuration are not. The circuit breaker counts the same
+ * errors as provider trouble.
  */
-async function callHuggingFace(prompt: string, negativePrompt: string): Promise<Buffer> {
-  const token = process.env.HUGGINGFACE_API_TOKEN;
-  
-  if (!token) {
-    throw new HuggingFaceError(
-      'HUGGINGFACE_API_TOKEN environment variable is not set. ' +
-      'Get a free token at https://huggingface.co/settings/tokens'
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderConfigError) {
+    return false;
+  }
+  if (!(error instanceof ProviderError) || error.statusCode === undefined) {
+    return true;
+  }
+  return error.statusCode === 429 || error.statusCode >= 500;
+}
+
+/**
+ * Computes the wait before a retry
+ * 
+ * @param error - Error of the failed call
+ * @param attempt - Retry number (1-based)
+ * @returns Delay in milliseconds: the provider's requested wait if given
+ *          (model loading time, Retry-After), otherwise exponential backoff with jitter
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof ProviderError && error.estimatedTime) {
+    return Math.ceil(error.estimatedTime * 1000);
+  }
+  if (error instanceof ProviderError && error.statusCode === 503) {
+    return AI_PARAMS.MODEL_LOADING_RETRY_DELAY_MS;
+  }
+  const backoff = API.RETRY_DELAY_MS * 2 ** (attempt - 1);
+  return Math.round(backoff * (1 + (Math.random() * 2 - 1) * API.RETRY_JITTER));
+}
+
+/**
+ * Generates one image with a provider, retrying retryable failures
+ * 
+ * @param provider - Provider to call
+ * @param request - Prompt, size and sampling parameters
+ * @param deadline - Epoch ms after which no retry is started
+ * @param signal - Aborts the call in flight and any waiting
+ * @param onRetry - Called before waiting for each retry
+ * @returns Image data
+ * @throws The last provider error once retries are exhausted or not allowed
+ * @throws {CallbackError} If onRetry throws
+ */
+async function generateWithRetry(
+  provider: ImageProvider,
+  request: ProviderRequest,
+  deadline: number,
+  signal?: AbortSignal,
+  onRetry?: (retry: RetryInfo) => Promise<void>
+): Promise<Buffer> {
+  for (let attempt = 1; ; attempt++) {
+    const release = await acquireSlot(provider.name, provider.concurrency, signal);
+    const timeout = AbortSignal.timeout(API.TIMEOUT_MS);
+    let error: unknown;
+    try {
+      return await provider.generate(request, signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (err) {
+      signal?.throwIfAborted();
+      error = timeout.aborted
+        ? new ProviderError(provider.name, `Request timed out after ${API.TIMEOUT_MS / 1000}s`)
+        : err;
+    } finally {
+      release();
+    }
+
+    if (!isRetryableError(error) || attempt > API.RETRY_ATTEMPTS) {
+      throw error;
+    }
+
+    const delayMs = getRetryDelay(error, attempt);
+    if (Date.now() + delayMs >= deadline) {
+      console.warn(`[AI Provider] ${provider.name}: retry would exceed the deadline, giving up`);
+      throw error;
+    }
+
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(
+      `[AI Provider] ${provider.name}: ${reason} - retrying in ${Math.ceil(delayMs / 1000)}s ` +
+      `(retry ${attempt}/${API.RETRY_ATTEMPTS})`
     );
+
+    try {
+      await onRetry?.({ provider: provider.name, attempt, maxAttempts: API.RETRY_ATTEMPTS, delayMs, reason });
+    } catch (callbackError) {
+      throw new CallbackError(callbackError);
+    }
+    await sleep(delayMs, undefined, { signal });
   }
+}
 
-  return new Promise((resolve, reject) => {
-    const payload = JSON.stringify({
-      inputs: prompt,
-      parameters: {
-        negative_prompt: negativePrompt,
-        guidance_scale: AI_PARAMS.GUIDANCE_SCALE,
-        num_inference_steps: AI_PARAMS.INFERENCE_STEPS,
-      },
-    });
-
-    const options = {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(payload),
-      },
-    };
-
-    const req = https.request(HF_CONFIG.API_URL, options, (res) => {
-      const chunks: Buffer[] = [];
-
-      res.on('data', (chunk) => chunks.push(chunk));
-
-      res.on('end', () => {
-        const data = Buffer.concat(chunks);
-
-        if (res.statusCode === 200) {
-          // Success - data is the image binary
-          resolve(data);
-        } else if (res.statusCode === 503) {
-          // Model is loading
-          const response = JSON.parse(data.toString());
-          const waitTime = response.estimated_time || AI_PARAMS.MODEL_LOADING_RETRY_DELAY_MS / 1000;
-          reject(new HuggingFaceError(
-            `Model is loading. Please wait ${Math.ceil(waitTime)} seconds and try again.`,
-            503,
-            waitTime
-          ));
-        } else {
-          // Error
-          let errorMessage = `HuggingFace API error: ${res.statusCode}`;
-          try {
-            const response = JSON.parse(data.toString());
-            errorMessage = response.error || errorMessage;
-          } catch {
-            // Ignore JSON parse error
-          }
-          reject(new HuggingFaceError(errorMessage, res.statusCode));
-        }
-      });
-    });
-
-    req.on('error', (err) => reject(new HuggingFaceError(err.message)));
-    req.write(payload);
-    req.end();
-  });
-}
-
-/**
- * Generates multiple images using HuggingFace's inference API
- * 
- * Images are generated sequentially to respect API rate limits.
- * If the first image fails, the entire operation fails.
- * If subsequent images fail, they are skipped and generation continues.
+/**
+ * Crops and scales an image to the requested dimensions
+ * Needed when a provider cannot produce the exact size (fixed sizes, or
+ * the model ignoring the requested one); the output format is kept
+ * 
+ * @param buffer - Image from the provider
+ * @param width - Requested width in pixels
+ * @param height - Requested height in pixels
+ * @param provider - Provider name for logging
+ * @returns Image at exactly the requested dimensions
+ */
+async function fitToResolution(buffer: Buffer, width: number, height: number, provider: ImageProviderName): Promise<Buffer> {
+  const metadata = await sharp(buffer).metadata();
+  if (metadata.width === width && metadata.height === height) {
+    return buffer;
+  }
+
+  console.log(`[AI Provider] ${provider} returned ${metadata.width}x${metadata.height}, fitting to ${width}x${height}`);
+  return sharp(buffer).resize(width, height, { fit: 'cover' }).toBuffer();
+}
+
+/**
+ * Generates one image, trying each model of the chain in turn
+ * 
+ * @param chain - Models in order of preference, on distinct providers
+ * @param request - Prompt, size and sampling parameters
+ * @param deadline - Epoch ms after which no retry is started
+ * @param signal - Aborts generation
+ * @param onRetry - Called before waiting for each retry
+ * @returns Image data and the model that produced it
+ * @throws The last provider error, or a ProviderError if every circuit is open
+ * @throws The signal's reason if it was aborted
+ */
+async function generateWithFallback(
+  chain: ImageModel[],
+  request: Omit<ProviderRequest, 'model'>,
+  deadline: number,
+  signal?: AbortSignal,
+  onRetry?: (retry: RetryInfo) => Promise<void>
+): Promise<{ buffer: Buffer; model: ImageModel }> {
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const model = chain[i];
+    const provider = getProvider(model.provider);
+    const permit = tryAcquire(provider.name);
+    if (!permit) {
+      console.warn(`[AI Provider] ${provider.name}: circuit open, skipping`);
+      continue;
+    }
+
+    try {
+      const buffer = await generateWithRetry(provider, { ...request, model: model.model }, deadline, signal, onRetry);
+      recordOutcome(permit, false);
+      return { buffer, model };
+    } catch (error) {
+      // Abandoned calls say nothing about the provider's health
+      if (error instanceof CallbackError) {
+        releaseCall(permit);
+        throw error;
+      }
+      if (signal?.aborted) {
+        releaseCall(permit);
+        throw signal.reason;
+      }
+      recordOutcome(permit, isRetryableError(error));
+      lastError = error;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const next = chain[i + 1];
+      console.warn(`[AI Provider] ${provider.name} failed: ${message}${next ? `, falling back to ${next.provider}` : ''}`);
+    }
+  }
+
+  throw lastError || new ProviderError(
+    chain[0].provider,
+    'No image provider available: every provider circuit is open',
+    503
+  );
+}
+
+/**
+ * Whether a fallback model honours the request: the size, the seed and
+ * scheduler if given, and guidance and steps within its bounds
+ */
+function canFallBackTo(model: ImageModel, options: GenerateImageOptions): boolean {
+  const { width, height, seed, guidanceScale, numInferenceSteps, scheduler } = options;
+  const withinLimits = (value: number | undefined, supported: boolean, range: ParameterRange) =>
+    value === undefined || !supported || (value >= range.min && value <= range.max);
+
+  return (
+    model.supportedResolutions.includes(`${width}x${height}`) &&
+    (seed === undefined || model.capabilities.seed) &&
+    (scheduler === undefined || model.schedulers.includes(scheduler)) &&
+    withinLimits(guidanceScale, model.capabilities.guidanceScale, model.limits.guidanceScale) &&
+    withinLimits(numInferenceSteps, model.capabilities.inferenceSteps, model.limits.inferenceSteps)
+  );
+}
+
+/**
+ * Generates multiple images with the selected model
+ * 
+ * Up to the provider's concurrency limit, images are requested in
+ * parallel. Each image is one provider call, even where a batch API
+ * exists, so every image keeps its own seed and can be replayed alone.
+ * 
+ * If an image fails before any image has succeeded, no further images are
+ * started; the operation fails if no image was produced. Otherwise failed
+ * images are skipped, reported through onImageFailed, and generation continues.
+ * Errors thrown by the callbacks are not caught and abort generation,
+ * as does aborting the signal.
  * 
  * @param options - Image generation options
- * @returns Promise resolving to array of image buffers
- * @throws {HuggingFaceError} If the first image generation fails
+ * @returns Promise resolving to the generated images with their seeds, in request order
+ * @throws {ProviderError} If no image could be generated
  */
-export async function generateImages(options: GenerateImageOptions): Promise<Buffer[]> {
-  const { prompt, negativePrompt, numImages } = options;
+export async function generateImages(options: GenerateImageOptions): Promise<ProviderImage[]> {
+  const {
+    prompt,
+    negativePrompt,
+    numImages,
+    width,
+    height,
+    signal,
+    onImageStart,
+    onRetry,
+    onImageGenerated,
+    onImageFailed,
+  } = options;
+  const primaryModel = resolveModel(options.model, options.provider);
+  const primary = getProvider(primaryModel.provider);
+  const guidanceScale = options.guidanceScale ?? primaryModel.defaults.guidanceScale;
+  const numInferenceSteps = options.numInferenceSteps ?? primaryModel.defaults.inferenceSteps;
+  const scheduler = options.scheduler;
+  const fallbacks = getProviderChain(primary.name, options.fallback ?? true)
+    .slice(1)
+    .map(getDefaultModel)
+    .filter((model) => canFallBackTo(model, { ...options, guidanceScale, numInferenceSteps }));
+  const chain = [primaryModel, ...fallbacks];
+  const concurrency = Math.max(1, Math.min(numImages, primary.concurrency));
 
-  console.log(`[AI Provider] Generating ${numImages} image(s) with model: ${HF_CONFIG.MODEL}`);
+  console.log(
+    `[AI Provider] Generating ${numImages} image(s) with ${primary.name} model: ${primaryModel.model}` +
+    (concurrency > 1 ? `, ${concurrency} at a time` : '') +
+    (fallbacks.length > 0 ? ` (fallbacks: ${fallbacks.map((model) => model.provider).join(', ')})` : '')
+  );
 
-  const imageBuffers: Buffer[] = [];
+  const images: (ProviderImage | undefined)[] = new Array(numImages);
+  let firstError: { index: number; error: unknown } | undefined;
+  let fatalError: { error: unknown } | undefined;
+  let succeeded = 0;
+  let next = 0;
 
-  // Generate images sequentially (HuggingFace free API doesn't support batch)
-  for (let i = 0; i < numImages; i++) {
+  /**
+   * Generates one image and runs its callbacks
+   * Provider failures are recorded; callback errors and aborts are rethrown
+   */
+  const generateOne = async (i: number): Promise<void> => {
     console.log(`[AI Provider] Generating image ${i + 1}/${numImages}...`);
-    
+    await onImageStart?.(i);
+
+    const seed = options.seed !== undefined ? (options.seed + i) % (AI_PARAMS.MAX_SEED + 1) : randomSeed();
+    let image: ProviderImage;
     try {
-      const imageBuffer = await callHuggingFace(prompt, negativePrompt);
-      imageBuffers.push(imageBuffer);
-      console.log(`[AI Provider] Image ${i + 1}/${numImages} generated successfully`);
+      const deadline = Date.now() + API.TIMEOUT_MS;
+      const { buffer, model } = await generateWithFallback(
+        chain,
+        { prompt, negativePrompt, width, height, seed, guidanceScale, numInferenceSteps, scheduler },
+        deadline,
+        signal,
+        onRetry && ((retry) => onRetry(retry, i))
+      );
+      image = {
+        buffer: await fitToResolution(buffer, width, height, model.provider),
+        // A seed the model ignores cannot reproduce the image, so it is not recorded
+        seed: model.capabilities.seed ? seed : undefined,
+        provider: model.provider,
+        model: model.model,
+        modelId: model.id,
+      };
+      images[i] = image;
+      succeeded++;
+      console.log(`[AI Provider] Image ${i + 1}/${numImages} generated successfully by ${model.provider}${image.seed !== undefined ? ` (seed ${seed})` : ''}`);
     } catch (error) {
-      console.error(`[AI Provider] Failed to generate image ${i + 1}:`, error);
-      
-      // If the first image fails, throw the error to fail the entire job
-      if (i === 0) {
+      if (error instanceof CallbackError) {
+        throw error.original;
+      }
+      if (signal?.aborted) {
         throw error;
       }
-      
-      // For subsequent images, continue with remaining images
-      console.warn(`[AI Provider] Skipping image ${i + 1}, continuing with remaining images`);
+      console.error(`[AI Provider] Failed to generate image ${i + 1}:`, error);
+      if (!firstError || i < firstError.index) {
+        firstError = { index: i, error };
+      }
+      await onImageFailed?.(error, i);
+      return;
     }
+
+    await onImageGenerated?.(image, i);
+  };
+
+  // Each runner takes the next image until none are left; stop early on
+  // fatal errors, and when images fail before any has succeeded
+  const runner = async (): Promise<void> => {
+    while (next < numImages && !fatalError && (succeeded > 0 || !firstError)) {
+      try {
+        await generateOne(next++);
+      } catch (error) {
+        fatalError = fatalError || { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, runner));
+
+  if (fatalError) {
+    throw fatalError.error;
+  }
+
+  const generated = images.filter((image): image is ProviderImage => image !== undefined);
+  if (generated.length === 0 && firstError) {
+    throw firstError.error;
+  }
+
+  if (next < numImages) {
+    console.warn(`[AI Provider] Stopped after ${next}/${numImages} images: no image succeeded`);
+  }
+  console.log(`[AI Provider] Successfully generated ${generated.length}/${numImages} images`);
+  return generated;
+}
+
+/**
+ * Resolves the resolution requested by generation settings
+ * An aspect-ratio preset maps to its resolution; without either, the
+ * default resolution is used if the model supports it, else the model's first
+ * 
+ * @param settings - Generation settings of the request
+ * @param model - Model the request generates with
+ * @returns Resolution in format "WIDTHxHEIGHT"
+ */
+export function resolveResolution(settings: GenerationSettings | undefined, model: ImageModel): Resolution {
+  if (settings?.aspectRatio) {
+    return IMAGE_LIMITS.ASPECT_RATIOS[settings.aspectRatio];
   }
+  if (settings?.resolution) {
+    return settings.resolution;
+  }
+  return model.supportedResolutions.includes(IMAGE_LIMITS.DEFAULT_RESOLUTION)
+    ? IMAGE_LIMITS.DEFAULT_RESOLUTION
+    : model.supportedResolutions[0] as Resolution;
+}
 
-  console.log(`[AI Provider] Successfully generated ${imageBuffers.length}/${numImages} images`);
-  return imageBuffers;
+/**
+ * Resolves the sampling parameters requested by generation settings,
+ * filling in the model's defaults
+ * 
+ * @param settings - Generation settings of the request
+ * @param model - Model the request generates with
+ * @returns Guidance scale, inference steps and scheduler (undefined for the model's default)
+ */
+export function resolveModelParameters(
+  settings: GenerationSettings | undefined,
+  model: ImageModel
+): Required<Pick<GenerationSettings, 'guidanceScale' | 'numInferenceSteps'>> & Pick<GenerationSettings, 'scheduler'> {
+  return {
+    guidanceScale: settings?.guidanceScale ?? model.defaults.guidanceScale,
+    numInferenceSteps: settings?.numInferenceSteps ?? model.defaults.inferenceSteps,
+    scheduler: settings?.scheduler,
+  };
 }
 
 /**
@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BatchItem,
+  BatchManifest,
+  BatchManifestEntry,
+  BatchProduct,
+  BatchStatusResponse,
+  GenerationSettings,
+  LogoSettings,
+  OutputSettings,
+} from '../types';
+import { parseCsvRecords } from './csv';
+import { ValidationError } from './validation';
+import { connection } from './redis';
+import { BATCH } from './constants';
+
+/**
+ * Batch catalog generation
+ *
+ * A batch fans a product feed out into one image generation job per row.
+ * Batch state lives in Redis next to the queue:
+ * - `batch:{id}`          hash with total/completed/failed counters and timestamps
+ * - `batch:{id}:items`    hash of row -> queued BatchItem
+ * - `batch:{id}:results`  hash of row -> BatchManifestEntry, filled as jobs finish
+ * - `batch:{id}:manifest` combined manifest, written once the last job finishes
+ */
+
+/**
+ * Batch reference carried in each job's data
+ */
+export interface BatchJobRef {
+  /** Parent batch identifier */
+  id: string;
+  /** 1-based row number in the feed */
+  row: number;
+  /** SKU of the row, if provided */
+  sku?: string;
+}
+
+// ============================================================================
+// Feed Parsing
+// ============================================================================
+
+/**
+ * Parses an optional numeric CSV column
+ * Non-numeric values become NaN and are rejected by validation
+ */
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Converts a flat CSV record into a product row
+ *
+ * Supported columns: sku, description, category, style, angle, color, provider,
+ * model, num_images, resolution, aspect_ratio, guidance_scale, num_inference_steps,
+ * scheduler, output_format, output_quality, output_chroma_subsampling,
+ * output_strip_metadata, logo_type, logo_content, logo_position, logo_size, logo_opacity,
+ * logo_rotation, logo_smart_positioning.
+ * Values are passed through as-is so validation can report bad input.
+ *
+ * @param record - CSV record keyed by lower-cased column name
+ * @returns Product row
+ */
+function csvRecordToProduct(record: Record<string, string>): Partial<BatchProduct> {
+  const product: Partial<BatchProduct> = {
+    sku: record.sku,
+    description: record.description,
+    category: record.category as BatchProduct['category'],
+    style: record.style as BatchProduct['style'],
+    angle: record.angle as BatchProduct['angle'],
+    color: record.color,
+    provider: record.provider as BatchProduct['provider'],
+    model: record.model,
+  };
+
+  if (
+    record.num_images || record.resolution || record.aspect_ratio ||
+    record.guidance_scale || record.num_inference_steps || record.scheduler
+  ) {
+    product.settings = {
+      numImages: toNumber(record.num_images),
+      resolution: record.resolution as GenerationSettings['resolution'],
+      aspectRatio: record.aspect_ratio as GenerationSettings['aspectRatio'],
+      guidanceScale: toNumber(record.guidance_scale),
+      numInferenceSteps: toNumber(record.num_inference_steps),
+      scheduler: record.scheduler as GenerationSettings['scheduler'],
+    };
+  }
+
+  if (
+    record.output_format || record.output_quality ||
+    record.output_chroma_subsampling || record.output_strip_metadata
+  ) {
+    product.settings = {
+      ...product.settings,
+      output: {
+        format: record.output_format as OutputSettings['format'],
+        quality: toNumber(record.output_quality),
+        chromaSubsampling: record.output_chroma_subsampling as OutputSettings['chromaSubsampling'],
+        stripMetadata: record.output_strip_metadata === undefined ? undefined : record.output_strip_metadata === 'true',
+      },
+    };
+  }
+
+  if (record.logo_type) {
+    product.logo = {
+      type: record.logo_type as LogoSettings['type'],
+      content: record.logo_content,
+      position: record.logo_position as LogoSettings['position'],
+      size: toNumber(record.logo_size) as number,
+      opacity: toNumber(record.logo_opacity) as number,
+      rotation: toNumber(record.logo_rotation),
+      smartPositioning: record.logo_smart_positioning === 'true',
+    };
+  }
+
+  return product;
+}
+
+/**
+ * Extracts product rows from a batch request body
+ *
+ * Accepts CSV text (with a header row), a JSON array of products,
+ * or a JSON object with a `products` array.
+ *
+ * @param body - Parsed request body
+ * @param isCsv - Whether the body is CSV text
+ * @returns Raw product rows, not yet validated
+ * @throws {ValidationError} If the body has no recognizable rows
+ */
+export function parseBatchFeed(body: unknown, isCsv: boolean): unknown[] {
+  if (isCsv) {
+    if (typeof body !== 'string') {
+      throw new ValidationError('CSV body must be text');
+    }
+    return parseCsvRecords(body).map(csvRecordToProduct);
+  }
+
+  if (Array.isArray(body)) {
+    return body;
+  }
+
+  if (body && typeof body === 'object' && Array.isArray((body as { products?: unknown }).products)) {
+    return (body as { products: unknown[] }).products;
+  }
+
+  throw new ValidationError('Batch body must be CSV, a JSON array of products, or an object with a "products" array');
+}
+
+// ============================================================================
+// Batch State
+// ============================================================================
+
+/**
+ * Redis key for a batch, with optional suffix
+ */
+function batchKey(batchId: string, suffix?: string): string {
+  return `${BATCH.KEY_PREFIX}:${batchId}${suffix ? `:${suffix}` : ''}`;
+}
+
+/**
+ * Registers a new batch before its jobs are queued
+ * Registering first guarantees counters exist when the first job finishes
+ *
+ * @param total - Number of rows that will be queued
+ * @returns New batch identifier
+ */
+export async function createBatch(total: number): Promise<string> {
+  const batchId = uuidv4();
+  const key = batchKey(batchId);
+
+  await connection
+    .multi()
+    .hset(key, { total, completed: 0, failed: 0, createdAt: new Date().toISOString() })
+    .expire(key, BATCH.TTL_SECONDS)
+    .exec();
+
+  return batchId;
+}
+
+/**
+ * Removes a batch whose jobs could not be queued
+ *
+ * @param batchId - Batch identifier
+ */
+export async function discardBatch(batchId: string): Promise<void> {
+  await connection.del(batchKey(batchId));
+}
+
+/**
+ * Records the queued jobs of a batch
+ *
+ * @param batchId - Batch identifier
+ * @param items - Queued rows and their job IDs
+ */
+export async function saveBatchItems(batchId: string, items: BatchItem[]): Promise<void> {
+  if (items.length === 0) {
+    return;
+  }
+
+  const key = batchKey(batchId, 'items');
+  const fields: Record<string, string> = {};
+  items.forEach((item) => {
+    fields[item.row] = JSON.stringify(item);
+  });
+
+  await connection.multi().hset(key, fields).expire(key, BATCH.TTL_SECONDS).exec();
+}
+
+/**
+ * Builds and stores the combined manifest of a finished batch
+ */
+async function finalizeBatch(batchId: string): Promise<BatchManifest> {
+  const key = batchKey(batchId);
+  const finishedAt = new Date().toISOString();
+  const [meta, results] = await Promise.all([
+    connection.hgetall(key),
+    connection.hvals(batchKey(batchId, 'results')),
+  ]);
+
+  const entries = results
+    .map((entry) => JSON.parse(entry) as BatchManifestEntry)
+    .sort((a, b) => a.row - b.row);
+
+  const manifest: BatchManifest = {
+    batchId,
+    createdAt: meta.createdAt,
+    finishedAt,
+    total: Number(meta.total),
+    succeeded: entries.filter((entry) => entry.state === 'completed').length,
+    failed: entries.filter((entry) => entry.state !== 'completed').length,
+    entries,
+  };
+
+  await connection
+    .multi()
+    .hset(key, { finishedAt })
+    .set(batchKey(batchId, 'manifest'), JSON.stringify(manifest), 'EX', BATCH.TTL_SECONDS)
+    .exec();
+
+  console.log(`[Batch] Batch ${batchId} finished: ${manifest.succeeded}/${manifest.total} succeeded`);
+  return manifest;
+}
+
+/**
+ * Records the outcome of a batch job and finalizes the batch after the last one
+ *
+ * @param batch - Batch reference from the job data
+ * @param entry - Final outcome of the row
+ */
+export async function recordBatchResult(batch: BatchJobRef, entry: BatchManifestEntry): Promise<void> {
+  const key = batchKey(batch.id);
+  const resultsKey = batchKey(batch.id, 'results');
+  const counter = entry.state === 'completed' ? 'completed' : 'failed';
+
+  // Increment and read counters atomically so exactly one caller sees the batch finish
+  const replies = await connection
+    .multi()
+    .hset(resultsKey, String(batch.row), JSON.stringify(entry))
+    .expire(resultsKey, BATCH.TTL_SECONDS)
+    .hincrby(key, counter, 1)
+    .hmget(key, 'total', 'completed', 'failed')
+    .exec();
+
+  const counters = replies?.[3]?.[1] as (string | null)[] | undefined;
+  if (!counters) {
+    return;
+  }
+
+  const [total, completed, failed] = counters.map(Number);
+  if (completed + failed === total) {
+    await finalizeBatch(batch.id);
+  }
+}
+
+/**
+ * Gets aggregate progress of a batch
+ *
+ * @param batchId - Batch identifier
+ * @returns Batch status, or null if the batch does not exist
+ */
+export async function getBatchStatus(batchId: string): Promise<BatchStatusResponse | null> {
+  const [meta, items] = await Promise.all([
+    connection.hgetall(batchKey(batchId)),
+    connection.hvals(batchKey(batchId, 'items')),
+  ]);
+
+  if (!meta.total) {
+    return null;
+  }
+
+  const total = Number(meta.total);
+  const completed = Number(meta.completed);
+  const failed = Number(meta.failed);
+
+  return {
+    success: true,
+    batchId,
+    state: meta.finishedAt ? 'completed' : 'processing',
+    total,
+    completed,
+    failed,
+    percent: total > 0 ? Math.round(((completed + failed) / total) * 100) : 100,
+    items: items.map((item) => JSON.parse(item) as BatchItem).sort((a, b) => a.row - b.row),
+    createdAt: meta.createdAt,
+    finishedAt: meta.finishedAt,
+    manifestUrl: `/api/batches/${batchId}/manifest`,
+  };
+}
+
+/**
+ * Gets the combined result manifest of a finished batch
+ *
+ * @param batchId - Batch identifier
+ * @returns Manifest, or null if the batch has not finished (or does not exist)
+ */
+export async function getBatchManifest(batchId: string): Promise<BatchManifest | null> {
+  const manifest = await connection.get(batchKey(batchId, 'manifest'));
+  return manifest ? (JSON.parse(manifest) as BatchManifest) : null;
+}
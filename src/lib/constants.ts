@@ -14,7 +14,32 @@ export const IMAGE_LIMITS = {
   MAX_IMAGES: 4,
   DEFAULT_IMAGES: 1,
   DEFAULT_RESOLUTION: '1024x1024' as const,
-  SUPPORTED_RESOLUTIONS: ['512x512', '768x768', '1024x1024'] as const,
+  SUPPORTED_RESOLUTIONS: [
+    '512x512', '768x768', '1024x1024', // Square
+    '1024x1280', // 4:5
+    '768x1024',  // 3:4
+    '1024x576',  // 16:9
+    '576x1024',  // 9:16
+  ] as const,
+  // Aspect-ratio presets and the resolution each maps to
+  ASPECT_RATIOS: {
+    '1:1': '1024x1024',
+    '4:5': '1024x1280',
+    '3:4': '768x1024',
+    '16:9': '1024x576',
+    '9:16': '576x1024',
+  } as const,
+  MAX_VARIANT_IMAGES: 16, // Total images (variants × numImages) in variant matrix mode
+} as const;
+
+// ============================================================================
+// Prompt Options
+// ============================================================================
+
+export const PROMPT_OPTIONS = {
+  CATEGORIES: ['clothing', 'footwear', 'electronics', 'furniture', 'beauty', 'jewelry', 'home-decor', 'toy', 'other'] as const,
+  STYLES: ['studio', 'lifestyle', 'nature', 'urban', 'minimalist', 'vintage'] as const,
+  ANGLES: ['front', 'side', 'back', 'top', 'bottom', '45_degree', 'close_up', 'wide', 'eye_level'] as const,
 } as const;
 
 // ============================================================================
@@ -32,10 +57,92 @@ export const VALIDATION = {
 // ============================================================================
 
 export const STORAGE = {
-  GENERATED_DIR: 'public/generated',
-  FILE_EXTENSION: '.png',
+  BACKEND: process.env.STORAGE_BACKEND || 'local', // 'local' or 's3'
+  LOCAL_DIR: 'public', // Root of the local backend, served statically
+  GENERATED_PREFIX: 'generated', // Key prefix of generated images, also their URL path
+  DERIVATIVES_PREFIX: 'generated/derivatives', // Resized copies, kept out of image listings
+  LOGOS_PREFIX: 'logos', // Key prefix of uploaded logos, also their URL path
+  METADATA_EXTENSION: '.json', // Sidecar appended to the image filename
   FILENAME_BATCH_ID_LENGTH: 8,
-  URL_PREFIX: '/generated',
+  CONTENT_TYPES: {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.svg': 'image/svg+xml',
+    '.json': 'application/json',
+  } as Record<string, string>,
+  DEFAULT_CONTENT_TYPE: 'application/octet-stream',
+  CACHE_CONTROL: 'public, max-age=31536000, immutable', // Stored filenames are unique and never rewritten
+} as const;
+
+// ============================================================================
+// Output Formats
+// ============================================================================
+
+export const OUTPUT = {
+  FORMATS: ['png', 'jpeg', 'webp', 'avif'] as const,
+  DEFAULT_FORMAT: 'png' as const,
+  EXTENSIONS: { png: '.png', jpeg: '.jpg', webp: '.webp', avif: '.avif' } as const, // Saved image filenames
+  LOSSY_FORMATS: ['jpeg', 'webp', 'avif'] as const, // Formats that take a quality
+  DEFAULT_QUALITY: { jpeg: 85, webp: 80, avif: 50 } as const, // AVIF looks alike at much lower settings
+  QUALITY_MIN: 1,
+  QUALITY_MAX: 100,
+  CHROMA_SUBSAMPLING: ['4:2:0', '4:4:4'] as const,
+  CHROMA_SUBSAMPLING_FORMATS: ['jpeg', 'avif'] as const, // Formats whose encoder takes a subsampling mode
+  DEFAULT_CHROMA_SUBSAMPLING: '4:2:0' as const,
+} as const;
+
+// ============================================================================
+// Responsive Derivatives
+// ============================================================================
+
+export const DERIVATIVES = {
+  WIDTHS: process.env.DERIVATIVE_WIDTHS ?? '256,512,1024', // Comma-separated; empty disables derivatives
+  FORMATS: process.env.DERIVATIVE_FORMATS || '', // Comma-separated; empty uses each image's output format
+  MIN_WIDTH: 16,
+  MAX_WIDTH: 2048,
+  MAX_PER_IMAGE: 12, // widths × formats
+} as const;
+
+// ============================================================================
+// On-the-fly Image Transformations
+// ============================================================================
+
+export const IMAGE_TRANSFORM = {
+  PARAMS: ['w', 'h', 'fit', 'format', 'q', 'bg'] as const, // Accepted query parameters; others are rejected
+  FITS: ['cover', 'contain', 'fill', 'inside', 'outside'] as const,
+  DEFAULT_FIT: 'cover' as const,
+  MAX_DIMENSION: 4096,
+  SIZES: process.env.IMAGE_TRANSFORM_SIZES || '', // Comma-separated allowed w/h values; empty allows any up to MAX_DIMENSION
+  CACHE_DIR: 'cache/transforms', // Per instance, outside the public directory
+  CACHE_MAX_BYTES: Number(process.env.IMAGE_TRANSFORM_CACHE_MAX_BYTES) || 256 * 1024 * 1024, // Least recently used evicted first
+} as const;
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+export const RETENTION = {
+  MAX_AGE_DAYS: Number(process.env.RETENTION_MAX_AGE_DAYS) || 0, // 0 keeps files regardless of age
+  MAX_TOTAL_BYTES: Number(process.env.RETENTION_MAX_TOTAL_BYTES) || 0, // Images and logos together; 0 for no limit
+  KEEP_REFERENCED: process.env.RETENTION_KEEP_REFERENCED === 'true', // Never remove files in generation history
+  INTERVAL_MS: Number(process.env.RETENTION_INTERVAL_MS) || 60 * 60 * 1000, // Hourly
+  LOCK_KEY: 'retention:lock', // Keeps instances from sweeping at the same time
+  LOCK_TTL_MS: 10 * 60 * 1000, // Released early when the sweep ends
+  REPORT_KEY: 'retention:last-report',
+} as const;
+
+// ============================================================================
+// Image Provenance
+// ============================================================================
+
+export const PROVENANCE = {
+  EMBED_IN_FILE: process.env.EMBED_PROVENANCE !== 'false', // PNG text chunks / XMP in the image itself
+  XMP_NAMESPACE: 'urn:product-image-generator:provenance:1.0',
+  XMP_PREFIX: 'pig',
+  DIGITAL_SOURCE_TYPE: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
 } as const;
 
 // ============================================================================
@@ -43,10 +150,27 @@ export const STORAGE = {
 // ============================================================================
 
 export const API = {
-  TIMEOUT_MS: 300000, // 5 minutes for long-running generations
-  HUGGINGFACE_MODEL: 'stabilityai/stable-diffusion-xl-base-1.0',
-  RETRY_ATTEMPTS: 3,
-  RETRY_DELAY_MS: 2000,
+  TIMEOUT_MS: 300000, // Per provider call; 5 minutes for long-running generations
+  RETRY_ATTEMPTS: 3, // Retries per provider after the first attempt
+  RETRY_DELAY_MS: 2000, // Doubles on each retry: 2s, 4s, 8s
+  RETRY_JITTER: 0.2, // Up to 20% random spread between retries
+} as const;
+
+// ============================================================================
+// Image Providers
+// ============================================================================
+
+export const PROVIDER = {
+  NAMES: ['huggingface', 'replicate', 'openai', 'mock'] as const,
+  DEFAULT: process.env.IMAGE_PROVIDER || 'huggingface', // Used when a request names no provider
+  FALLBACKS: process.env.IMAGE_PROVIDER_FALLBACKS || '', // Comma-separated, tried in order when a provider fails
+} as const;
+
+export const CIRCUIT_BREAKER = {
+  WINDOW_SIZE: 10, // Most recent calls considered per provider
+  MIN_CALLS: 4, // Calls needed in the window before the circuit can open
+  FAILURE_RATE_THRESHOLD: 0.5, // Open when at least half of the window failed
+  COOLDOWN_MS: 60000, // Time an open circuit rejects calls before a trial call
 } as const;
 
 // ============================================================================
@@ -58,6 +182,81 @@ export const QUEUE = {
   CONCURRENCY: 1, // Process one job at a time (free tier limitation)
   RATE_LIMIT_MAX: 5, // Max 5 jobs
   RATE_LIMIT_DURATION_MS: 60000, // Per 60 seconds
+  JOB_TIMEOUT_MS: Number(process.env.JOB_TIMEOUT_MS) || 1800000, // Whole job, including retries (30 minutes)
+} as const;
+
+// ============================================================================
+// Job Progress & Event Streaming
+// ============================================================================
+
+export const PROGRESS = {
+  PROMPT_PERCENT: 5, // Progress once the prompt is optimized
+  IMAGES_PERCENT: 90, // Share of progress spread across the requested images
+  SSE_HEARTBEAT_MS: 15000, // Keeps proxies from closing idle event streams
+} as const;
+
+// ============================================================================
+// Idempotency Keys
+// ============================================================================
+
+export const IDEMPOTENCY = {
+  HEADER: 'Idempotency-Key',
+  KEY_PREFIX: 'idempotency',
+  MAX_KEY_LENGTH: 255,
+  TTL_SECONDS: 24 * 60 * 60, // 24 hours
+} as const;
+
+// ============================================================================
+// Result Cache
+// ============================================================================
+
+export const RESULT_CACHE = {
+  ENABLED: process.env.RESULT_CACHE !== 'false',
+  TTL_SECONDS: Number(process.env.RESULT_CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60, // 7 days
+  DIR: 'cache/results', // Cached provider images, outside the public directory
+  KEY_PREFIX: 'result-cache',
+  STATS_KEY: 'result-cache:stats',
+  PRUNE_INTERVAL_MS: 60 * 60 * 1000, // Expired files are removed at most hourly
+} as const;
+
+// ============================================================================
+// Batch Generation
+// ============================================================================
+
+export const BATCH = {
+  MAX_ROWS: 500,
+  MAX_BODY_SIZE: '2mb', // Request body limit for JSON and CSV feeds
+  KEY_PREFIX: 'batch',
+  TTL_SECONDS: 7 * 24 * 60 * 60, // 7 days
+} as const;
+
+// ============================================================================
+// Generation History
+// ============================================================================
+
+export const HISTORY = {
+  KEY_PREFIX: 'generation',
+  INDEX_KEY: 'generations:index', // Sorted set of record IDs scored by queue time
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  SCAN_CHUNK_SIZE: 100, // Records fetched per Redis round trip while filtering
+  MAX_SCAN: 2000, // Records examined per request before returning a partial page
+} as const;
+
+// ============================================================================
+// Webhook Delivery
+// ============================================================================
+
+export const WEBHOOK = {
+  QUEUE_NAME: 'webhook-delivery',
+  MAX_ATTEMPTS: 5,
+  BACKOFF_DELAY_MS: 5000, // Doubles on each retry: 5s, 10s, 20s, 40s
+  BACKOFF_JITTER: 0.2, // Up to 20% random spread between retries
+  TIMEOUT_MS: 10000,
+  SIGNATURE_HEADER: 'X-Webhook-Signature',
+  TIMESTAMP_HEADER: 'X-Webhook-Timestamp',
+  LOG_MAX_ENTRIES: 50, // Delivery attempts kept per job
+  LOG_TTL_SECONDS: 7 * 24 * 60 * 60, // 7 days
 } as const;
 
 // ============================================================================
@@ -67,7 +266,12 @@ export const QUEUE = {
 export const AI_PARAMS = {
   GUIDANCE_SCALE: 7.5,
   INFERENCE_STEPS: 30,
+  GUIDANCE_SCALE_MIN: 1,
+  GUIDANCE_SCALE_MAX: 20,
+  INFERENCE_STEPS_MIN: 10,
+  INFERENCE_STEPS_MAX: 100,
   MODEL_LOADING_RETRY_DELAY_MS: 20000, // 20 seconds
+  MAX_SEED: 2147483647, // Largest seed accepted (signed 32-bit)
 } as const;
 
 // ============================================================================
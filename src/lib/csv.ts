@@ -0,0 +1,93 @@
+/**
+ * Minimal CSV parser (RFC 4180)
+ *
+ * Supports quoted fields, escaped quotes ("") and embedded newlines
+ * inside quotes. Used for product feed uploads.
+ */
+
+/**
+ * Parses CSV text into rows of raw string fields
+ *
+ * @param text - CSV content
+ * @returns Array of rows, each an array of field values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 byte order mark added by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim().length > 0));
+}
+
+/**
+ * Parses CSV text with a header row into objects keyed by column name
+ * Column names are trimmed and lower-cased
+ *
+ * @param text - CSV content with header row
+ * @returns Array of records, one per data row
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...dataRows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+
+  return dataRows.map((values) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const value = (values[index] || '').trim();
+      if (column && value.length > 0) {
+        record[column] = value;
+      }
+    });
+    return record;
+  });
+}
@@ -0,0 +1,114 @@
+import sharp from 'sharp';
+import { DerivativeSettings, ImageDerivative, OutputFormat, OutputSettings } from '../types';
+import { encodeImage, getOutputExtension, resolveOutputSettings } from './image-encoding';
+import { getDerivativeFilename, saveDerivative } from './image-storage';
+import { DERIVATIVES, OUTPUT } from './constants';
+
+/**
+ * Responsive derivatives
+ *
+ * After an image is saved, resized copies are produced at a set of widths
+ * and formats so clients can build srcset attributes instead of
+ * downloading the full image for thumbnails.
+ */
+
+/**
+ * Parses a comma-separated environment list
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Derivative widths and formats from the DERIVATIVE_* environment settings
+ * Invalid entries are dropped with a warning
+ */
+const DEFAULT_DERIVATIVES: DerivativeSettings = (() => {
+  const widths = parseList(DERIVATIVES.WIDTHS).map(Number);
+  const formats = parseList(DERIVATIVES.FORMATS) as OutputFormat[];
+  const validWidths = widths.filter(
+    (width) => Number.isInteger(width) && width >= DERIVATIVES.MIN_WIDTH && width <= DERIVATIVES.MAX_WIDTH
+  );
+  const validFormats = formats.filter((format) => OUTPUT.FORMATS.includes(format));
+
+  if (validWidths.length !== widths.length || validFormats.length !== formats.length) {
+    console.warn('[Derivatives] Ignoring invalid DERIVATIVE_WIDTHS or DERIVATIVE_FORMATS entries');
+  }
+  return { widths: validWidths, formats: validFormats.length > 0 ? validFormats : undefined };
+})();
+
+/**
+ * Fills in the defaults of derivative settings
+ *
+ * @param derivatives - Requested derivative settings
+ * @returns Settings with widths (ascending, deduplicated) and formats set; formats
+ *          stay unset when they default to each image's output format
+ */
+export function resolveDerivativeSettings(derivatives?: DerivativeSettings): DerivativeSettings {
+  const widths = derivatives?.widths ?? DEFAULT_DERIVATIVES.widths ?? [];
+  return {
+    widths: [...new Set(widths)].sort((a, b) => a - b),
+    formats: derivatives?.formats ?? DEFAULT_DERIVATIVES.formats,
+  };
+}
+
+/**
+ * Encoding of a derivative
+ * Derivatives in the image's own format share its quality settings; all of
+ * them are stripped of metadata to stay small
+ */
+function getDerivativeOutput(format: OutputFormat, output: OutputSettings): OutputSettings {
+  return format === output.format
+    ? { ...output, stripMetadata: true }
+    : resolveOutputSettings({ format, stripMetadata: true });
+}
+
+/**
+ * Produces and saves the resized copies of a saved image
+ *
+ * Widths above the image's own are skipped, as is a copy identical to the
+ * image itself (same width and format).
+ *
+ * @param buffer - Encoded image as saved
+ * @param filename - Filename of the saved image
+ * @param output - Resolved output settings of the image
+ * @param derivatives - Resolved derivative settings (see resolveDerivativeSettings)
+ * @param signal - Checked before each copy
+ * @returns Saved copies, smallest first
+ * @throws {StorageError} If a copy cannot be stored
+ * @throws The signal's reason if it was aborted
+ */
+export async function createDerivatives(
+  buffer: Buffer,
+  filename: string,
+  output: OutputSettings,
+  derivatives: DerivativeSettings,
+  signal?: AbortSignal
+): Promise<ImageDerivative[]> {
+  const source = sharp(buffer);
+  const { width: sourceWidth } = await source.metadata();
+  if (!sourceWidth) {
+    throw new Error('Could not determine image dimensions');
+  }
+
+  const formats = derivatives.formats ?? [output.format ?? OUTPUT.DEFAULT_FORMAT];
+  const saved: ImageDerivative[] = [];
+
+  for (const width of derivatives.widths ?? []) {
+    for (const format of formats) {
+      if (width > sourceWidth || (width === sourceWidth && format === output.format)) {
+        continue;
+      }
+      signal?.throwIfAborted();
+
+      const copy = await encodeImage(source.clone().resize({ width }), getDerivativeOutput(format, output));
+      const { height = 0 } = await sharp(copy).metadata();
+      const derivativeFilename = getDerivativeFilename(filename, width, getOutputExtension(format));
+      const url = await saveDerivative(copy, derivativeFilename);
+
+      saved.push({ width, height, format, bytes: copy.length, url, filename: derivativeFilename });
+    }
+  }
+
+  return saved;
+}
@@ -0,0 +1,287 @@
+import { Job } from 'bullmq';
+import {
+  GenerationHistoryQuery,
+  GenerationRecord,
+  GenerationStatus,
+} from '../types';
+import { JobData, WorkerResult, getJobModel, resolveJobSettings } from './pipeline';
+import { getLogoFilename } from './image-storage';
+import { connection } from './redis';
+import { HISTORY } from './constants';
+
+/**
+ * Persistent generation history
+ *
+ * Every finished job is stored as a JSON record under `generation:{jobId}`
+ * (no expiry) and indexed in a sorted set scored by queue time. Date range
+ * filters map onto the index; the remaining filters are applied while
+ * scanning, bounded by HISTORY.MAX_SCAN records per request.
+ */
+
+/**
+ * Position in the history index, encoded into opaque page cursors
+ */
+interface HistoryCursor {
+  /** Index score (queue time in ms) */
+  score: number;
+  /** Record ID */
+  id: string;
+}
+
+/**
+ * Redis key for a history record
+ */
+function recordKey(id: string): string {
+  return `${HISTORY.KEY_PREFIX}:${id}`;
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe string
+ */
+function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a page cursor
+ *
+ * @param cursor - Cursor string from a previous page
+ * @returns Decoded cursor, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): HistoryCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded.score === 'number' && typeof decoded.id === 'string') {
+      return decoded as HistoryCursor;
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+}
+
+/**
+ * Converts an optional epoch timestamp to ISO string
+ */
+function toIsoString(timestamp?: number): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+/**
+ * Builds the history record of a finished job
+ *
+ * @param job - Finished job
+ * @param status - Final status
+ * @param result - Worker result (completed jobs only)
+ * @param error - Failure reason (failed/cancelled/timed out jobs only)
+ * @returns Generation record
+ */
+export function buildGenerationRecord(
+  job: Job<JobData>,
+  status: GenerationStatus,
+  result?: WorkerResult,
+  error?: string
+): GenerationRecord {
+  const { data } = job;
+  const finishedOn = job.finishedOn || Date.now();
+
+  return {
+    id: job.id as string,
+    requestId: data.requestId,
+    status,
+    request: {
+      description: data.description,
+      category: data.category,
+      style: data.style,
+      angle: data.angle,
+      color: data.color,
+      provider: data.replay ? data.replay.provider : data.provider,
+      model: data.model,
+    },
+    model: getJobModel(data).id,
+    prompt: result?.prompt || '',
+    negativePrompt: result?.negativePrompt || '',
+    settings: resolveJobSettings(data),
+    seeds: result?.images.map((image) => image.seed).filter((seed): seed is number => seed !== undefined),
+    logo: data.logo && data.logo.type !== 'none' ? { ...data.logo, detectionData: undefined } : undefined,
+    images: result?.images || [],
+    variants: result?.variants,
+    error,
+    batchId: data.batch?.id,
+    timings: {
+      queuedAt: new Date(job.timestamp).toISOString(),
+      startedAt: toIsoString(job.processedOn),
+      finishedAt: new Date(finishedOn).toISOString(),
+      queueMs: job.processedOn ? job.processedOn - job.timestamp : undefined,
+      processingMs: job.processedOn ? finishedOn - job.processedOn : undefined,
+    },
+  };
+}
+
+/**
+ * Stores a generation record and adds it to the index
+ *
+ * @param record - Record to store
+ */
+export async function saveGenerationRecord(record: GenerationRecord): Promise<void> {
+  await connection
+    .multi()
+    .set(recordKey(record.id), JSON.stringify(record))
+    .zadd(HISTORY.INDEX_KEY, new Date(record.timings.queuedAt).getTime(), record.id)
+    .exec();
+}
+
+/**
+ * Gets a single generation record
+ *
+ * @param id - Record ID (queue job ID)
+ * @returns The record, or null if not found
+ */
+export async function getGenerationRecord(id: string): Promise<GenerationRecord | null> {
+  const record = await connection.get(recordKey(id));
+  return record ? (JSON.parse(record) as GenerationRecord) : null;
+}
+
+/**
+ * Whether a scalar-or-list field contains a value
+ */
+function includesValue<T>(field: T | T[] | undefined, value: T): boolean {
+  return Array.isArray(field) ? field.includes(value) : field === value;
+}
+
+/**
+ * Whether a record matches the non-date filters of a query
+ */
+function matchesQuery(record: GenerationRecord, query: GenerationHistoryQuery): boolean {
+  const { request } = record;
+
+  if (query.category && (request.category || 'other') !== query.category) {
+    return false;
+  }
+  if (query.style && !includesValue(request.style || 'studio', query.style)) {
+    return false;
+  }
+  if (query.angle && !includesValue(request.angle || 'front', query.angle)) {
+    return false;
+  }
+  if (query.text && !request.description.toLowerCase().includes(query.text.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Searches generation history, newest first
+ *
+ * Pages are cursor-based so that records added while paging do not shift
+ * results. If HISTORY.MAX_SCAN records are examined without filling the
+ * page, a partial page is returned with a cursor to continue from.
+ *
+ * @param query - Filters, page size and cursor
+ * @returns Matching records and the cursor of the next page
+ * @throws Error if the cursor is malformed
+ */
+export async function queryGenerations(
+  query: GenerationHistoryQuery
+): Promise<{ records: GenerationRecord[]; nextCursor?: string }> {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (query.cursor && !cursor) {
+    throw new Error('Invalid cursor');
+  }
+
+  const upper = Math.min(cursor ? cursor.score : Infinity, query.to ? query.to.getTime() : Infinity);
+  const max = upper === Infinity ? '+inf' : String(upper);
+  const min = query.from ? String(query.from.getTime()) : '-inf';
+
+  const records: GenerationRecord[] = [];
+  let pastCursor = !cursor;
+  let offset = 0;
+  let scanned = 0;
+  let last: HistoryCursor | undefined;
+
+  while (scanned < HISTORY.MAX_SCAN) {
+    const entries = await connection.zrevrangebyscore(
+      HISTORY.INDEX_KEY, max, min, 'WITHSCORES', 'LIMIT', offset, HISTORY.SCAN_CHUNK_SIZE
+    );
+    if (entries.length === 0) {
+      // Index exhausted
+      return { records };
+    }
+    offset += entries.length / 2;
+
+    const ids: string[] = [];
+    const scores: number[] = [];
+    for (let i = 0; i < entries.length; i += 2) {
+      ids.push(entries[i]);
+      scores.push(Number(entries[i + 1]));
+    }
+
+    const values = await connection.mget(ids.map(recordKey));
+
+    for (let i = 0; i < ids.length; i++) {
+      scanned++;
+      last = { score: scores[i], id: ids[i] };
+
+      // Skip entries up to and including the cursor (ties share a score)
+      if (!pastCursor && cursor) {
+        if (ids[i] === cursor.id) {
+          pastCursor = true;
+          continue;
+        }
+        if (scores[i] >= cursor.score) {
+          continue;
+        }
+        pastCursor = true;
+      }
+
+      const value = values[i];
+      if (!value) {
+        continue;
+      }
+
+      const record = JSON.parse(value) as GenerationRecord;
+      if (matchesQuery(record, query)) {
+        records.push(record);
+        if (records.length === query.limit) {
+          return { records, nextCursor: encodeCursor(last) };
+        }
+      }
+    }
+  }
+
+  // Scan budget spent: return a partial page that can be continued
+  return { records, nextCursor: last ? encodeCursor(last) : undefined };
+}
+
+/**
+ * Collects the files referenced by any generation record
+ * Walks the whole index in chunks; used by the retention sweeper
+ *
+ * @returns Filenames of referenced images and logos
+ */
+export async function collectReferencedFiles(): Promise<{ images: Set<string>; logos: Set<string> }> {
+  const images = new Set<string>();
+  const logos = new Set<string>();
+
+  for (let offset = 0; ; offset += HISTORY.SCAN_CHUNK_SIZE) {
+    const ids = await connection.zrange(HISTORY.INDEX_KEY, offset, offset + HISTORY.SCAN_CHUNK_SIZE - 1);
+    if (ids.length === 0) {
+      break;
+    }
+
+    const values = await connection.mget(ids.map(recordKey));
+    for (const value of values) {
+      if (!value) {
+        continue;
+      }
+      const record = JSON.parse(value) as GenerationRecord;
+      record.images.forEach((image) => images.add(image.filename));
+      record.variants?.forEach((group) => group.images.forEach((image) => images.add(image.filename)));
+      if (record.logo?.type === 'image' && record.logo.content) {
+        logos.add(getLogoFilename(record.logo.content));
+      }
+    }
+  }
+
+  return { images, logos };
+}
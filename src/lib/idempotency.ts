@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { connection } from './redis';
+import { IDEMPOTENCY } from './constants';
+
+/**
+ * Idempotency key support for generation requests
+ *
+ * The first use of a client-supplied Idempotency-Key claims a fresh queue
+ * job ID, stored in Redis with the request body fingerprint; retries of the
+ * same request get that ID back and attach to the same BullMQ job (adding a
+ * job with an existing ID is a no-op), and reuse of the key for a different
+ * request is detected. Each claim gets a new ID, so a key used again after
+ * its record expired never attaches to the old job.
+ */
+
+/**
+ * Stored idempotency record
+ */
+interface IdempotencyRecord {
+  /** SHA-256 fingerprint of the request body */
+  fingerprint: string;
+  /** Queue job ID the key maps to */
+  jobId: string;
+  /** ISO timestamp when the key was first used */
+  createdAt: string;
+}
+
+/**
+ * Error thrown when an idempotency key is reused with a different request body
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted
+ * so that semantically equal bodies produce the same fingerprint
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the fingerprint of a request body
+ *
+ * @param body - Request body
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function fingerprintRequest(body: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(body)).digest('hex');
+}
+
+/**
+ * Checks that an Idempotency-Key header value is usable
+ *
+ * @param key - Header value
+ * @returns true if the key is a non-empty printable string within the length limit
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= IDEMPOTENCY.MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+/**
+ * Resolves the queue job ID for an idempotent request
+ *
+ * The first request with a key claims it with a new job ID; later requests
+ * with the same key and body get the same job ID back until the key expires.
+ *
+ * @param key - Idempotency-Key header value
+ * @param body - Request body used for the fingerprint
+ * @returns Job ID to use and whether the key had been seen before
+ * @throws {IdempotencyConflictError} If the key was used with a different body
+ */
+export async function resolveIdempotentJobId(
+  key: string,
+  body: unknown
+): Promise<{ jobId: string; replayed: boolean }> {
+  const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+  const redisKey = `${IDEMPOTENCY.KEY_PREFIX}:${keyHash}`;
+  const record: IdempotencyRecord = {
+    fingerprint: fingerprintRequest(body),
+    jobId: `idem_${uuidv4()}`,
+    createdAt: new Date().toISOString(),
+  };
+
+  const claimed = await connection.set(redisKey, JSON.stringify(record), 'EX', IDEMPOTENCY.TTL_SECONDS, 'NX');
+  if (claimed) {
+    return { jobId: record.jobId, replayed: false };
+  }
+
+  const stored = await connection.get(redisKey);
+  if (!stored) {
+    // Expired between SET and GET; treat as a fresh claim
+    return resolveIdempotentJobId(key, body);
+  }
+
+  const existing = JSON.parse(stored) as IdempotencyRecord;
+  if (existing.fingerprint !== record.fingerprint) {
+    throw new IdempotencyConflictError(
+      'Idempotency-Key has already been used with a different request body'
+    );
+  }
+
+  return { jobId: existing.jobId, replayed: true };
+}
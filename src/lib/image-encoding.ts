@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import { ImageMetadata, OutputFormat, OutputSettings } from '../types';
+import { buildXmpPacket, embedPngProvenance } from './provenance';
+import { OUTPUT } from './constants';
+
+/**
+ * Final image encoding
+ *
+ * Provider images and logo composites stay unencoded until the end of the
+ * pipeline, where each image is encoded exactly once into the requested
+ * format. Provenance is embedded as part of that encode.
+ */
+
+/**
+ * Fills in the defaults of output settings
+ *
+ * @param output - Requested output settings
+ * @returns Settings with format, quality (lossy formats), chroma subsampling
+ *          (formats that take it) and stripMetadata set
+ */
+export function resolveOutputSettings(output?: OutputSettings): OutputSettings {
+  const format = output?.format ?? OUTPUT.DEFAULT_FORMAT;
+
+  return {
+    format,
+    quality: format === 'png' ? undefined : output?.quality ?? OUTPUT.DEFAULT_QUALITY[format],
+    chromaSubsampling: format === 'jpeg' || format === 'avif'
+      ? output?.chromaSubsampling ?? OUTPUT.DEFAULT_CHROMA_SUBSAMPLING
+      : undefined,
+    stripMetadata: output?.stripMetadata ?? false,
+  };
+}
+
+/**
+ * Filename extension of a format
+ *
+ * @param format - Output format (default png)
+ * @returns Extension including the dot, e.g. ".webp"
+ */
+export function getOutputExtension(format: OutputFormat = OUTPUT.DEFAULT_FORMAT): string {
+  return OUTPUT.EXTENSIONS[format];
+}
+
+/**
+ * Format of a saved image, from its filename extension
+ *
+ * @param filename - Image filename
+ * @returns Output format, or null if the extension is not one of ours
+ */
+export function getOutputFormat(filename: string): OutputFormat | null {
+  return OUTPUT.FORMATS.find((format) => filename.endsWith(OUTPUT.EXTENSIONS[format])) ?? null;
+}
+
+/**
+ * Encodes an image into its output format
+ *
+ * Unless metadata is stripped, the source's own metadata (ICC profile, EXIF)
+ * is kept and the provenance is embedded: as an XMP packet by the encoder,
+ * plus text chunks for PNG.
+ *
+ * @param image - Decoded image, possibly with composites pending
+ * @param output - Resolved output settings (see resolveOutputSettings)
+ * @param provenance - Provenance to embed, if enabled
+ * @returns Encoded file contents
+ */
+export async function encodeImage(image: sharp.Sharp, output: OutputSettings, provenance?: ImageMetadata): Promise<Buffer> {
+  const embed = provenance && !output.stripMetadata;
+  let pipeline = output.stripMetadata ? image : image.keepMetadata();
+
+  switch (output.format) {
+    case 'jpeg':
+      pipeline = pipeline.jpeg({ quality: output.quality, chromaSubsampling: output.chromaSubsampling, mozjpeg: true });
+      break;
+    case 'webp':
+      pipeline = pipeline.webp({ quality: output.quality });
+      break;
+    case 'avif':
+      pipeline = pipeline.avif({ quality: output.quality, chromaSubsampling: output.chromaSubsampling });
+      break;
+    default:
+      pipeline = pipeline.png();
+  }
+
+  if (embed && output.format !== 'png') {
+    pipeline = pipeline.withXmp(buildXmpPacket(provenance));
+  }
+
+  const buffer = await pipeline.toBuffer();
+  return embed && output.format === 'png' ? embedPngProvenance(buffer, provenance) : buffer;
+}
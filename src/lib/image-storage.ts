@@ -1,100 +1,316 @@
-import fs from 'fs';
+import crypto from 'crypto';
 import path from 'path';
+import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
-import { GeneratedImage } from '../types';
-import { STORAGE } from './constants';
+import { GeneratedImage, ImageMetadata, StoredFile } from '../types';
+import { StoredObject, getStorage } from './storage';
+import { purgeTransforms } from './transform-cache';
+import { OUTPUT, STORAGE } from './constants';
 
 /**
- * Full path to the generated images directory
+ * Storage key of a generated image
+ *
+ * @param filename - Image filename
+ * @returns Object key under the generated prefix
  */
-const GENERATED_DIR = path.join(process.cwd(), STORAGE.GENERATED_DIR);
+function getImageKey(filename: string): string {
+  return `${STORAGE.GENERATED_PREFIX}/${filename}`;
+}
 
 /**
- * Ensures the generated images directory exists
- * Creates the directory with all necessary parent directories if it doesn't exist
+ * Storage key of an uploaded logo
+ *
+ * @param filename - Logo filename
+ * @returns Object key under the logos prefix
  */
-export function ensureGeneratedDir(): void {
-  if (!fs.existsSync(GENERATED_DIR)) {
-    fs.mkdirSync(GENERATED_DIR, { recursive: true });
-    console.log(`[Storage] Created directory: ${GENERATED_DIR}`);
-  }
+function getLogoKey(filename: string): string {
+  return `${STORAGE.LOGOS_PREFIX}/${filename}`;
+}
+
+/**
+ * Content type of a stored file, from its extension
+ *
+ * @param filename - Filename
+ * @returns MIME type
+ */
+export function getContentType(filename: string): string {
+  return STORAGE.CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? STORAGE.DEFAULT_CONTENT_TYPE;
 }
 
 /**
  * Generates a unique filename for an image
- * Format: img_{timestamp}_{batchId}_{index}.png
- * 
+ * Format: img_{timestamp}_{batchId}_{index}{extension}
+ *
  * @param timestamp - Unix timestamp
  * @param batchId - Unique batch identifier
  * @param index - Image index in batch
+ * @param extension - Extension of the image format
  * @returns Generated filename
  */
-function generateFilename(timestamp: number, batchId: string, index: number): string {
-  return `img_${timestamp}_${batchId}_${index}${STORAGE.FILE_EXTENSION}`;
+function generateFilename(timestamp: number, batchId: string, index: number, extension: string): string {
+  return `img_${timestamp}_${batchId}_${index}${extension}`;
 }
 
 /**
- * Saves image buffers to the local filesystem
- * 
- * Each image is saved with a unique filename and its metadata is returned.
- * If an image fails to save, it's logged but doesn't stop the process.
- * 
- * @param imageBuffers - Array of image buffers to save
- * @returns Array of saved image metadata (URL and filename)
+ * Whether a stored filename is a generated image (not a metadata sidecar)
+ *
+ * @param filename - Filename under the generated prefix
+ * @returns true for image files of any output format
  */
-export async function saveImagesLocally(imageBuffers: Buffer[]): Promise<GeneratedImage[]> {
-  ensureGeneratedDir();
+function isImageFilename(filename: string): boolean {
+  return Object.values(OUTPUT.EXTENSIONS).some((extension) => filename.endsWith(extension));
+}
 
-  const timestamp = Date.now();
-  const batchId = uuidv4().slice(0, STORAGE.FILENAME_BATCH_ID_LENGTH);
-
-  console.log(`[Storage] Saving ${imageBuffers.length} image(s) with batch ID: ${batchId}`);
-
-  const savedImages: GeneratedImage[] = [];
-
-  for (let i = 0; i < imageBuffers.length; i++) {
-    const buffer = imageBuffers[i];
-    const filename = generateFilename(timestamp, batchId, i);
-    const filePath = path.join(GENERATED_DIR, filename);
-
-    try {
-      fs.writeFileSync(filePath, buffer);
-      savedImages.push({
-        url: `${STORAGE.URL_PREFIX}/${filename}`,
-        filename,
-      });
-      console.log(`[Storage] Saved image ${i + 1}/${imageBuffers.length}: ${filename}`);
-    } catch (error) {
-      console.error(`[Storage] Failed to save image ${i + 1}:`, error);
-      // Continue with other images even if one fails
+/**
+ * Identifies a group of images saved together
+ * Images in a batch share a timestamp and batch ID in their filenames
+ */
+export interface ImageBatch {
+  timestamp: number;
+  batchId: string;
+}
+
+/**
+ * Creates a new image batch for naming saved images
+ *
+ * @returns New batch with current timestamp and unique batch ID
+ */
+export function createImageBatch(): ImageBatch {
+  return {
+    timestamp: Date.now(),
+    batchId: uuidv4().slice(0, STORAGE.FILENAME_BATCH_ID_LENGTH),
+  };
+}
+
+/**
+ * Saves a single image buffer as part of a batch
+ *
+ * @param buffer - Encoded image to save
+ * @param batch - Batch the image belongs to
+ * @param index - Image index in batch
+ * @param extension - Extension of the image's format (default .png)
+ * @returns Saved image metadata (URL and filename)
+ * @throws {StorageError} If the image cannot be stored
+ */
+export async function saveImage(
+  buffer: Buffer,
+  batch: ImageBatch,
+  index: number,
+  extension: string = OUTPUT.EXTENSIONS.png
+): Promise<GeneratedImage> {
+  const filename = generateFilename(batch.timestamp, batch.batchId, index, extension);
+  const key = getImageKey(filename);
+  await getStorage().put(key, buffer, getContentType(filename));
+
+  return {
+    url: getStorage().getPublicUrl(key),
+    filename,
+  };
+}
+
+/**
+ * Checks that a filename from a request refers to a file directly inside
+ * the storage directory (no path separators or traversal)
+ *
+ * @param filename - Filename to check
+ * @returns true if the filename is safe to use
+ */
+export function isSafeFilename(filename: string): boolean {
+  return /^[\w.-]+$/.test(filename) && !filename.startsWith('.') && path.basename(filename) === filename;
+}
+
+/**
+ * Describes a stored file from its storage entry
+ *
+ * @param object - Stored object
+ * @param filename - Filename within its key prefix
+ * @returns File description
+ */
+function describeFile(object: StoredObject, filename: string): StoredFile {
+  return {
+    filename,
+    url: getStorage().getPublicUrl(object.key),
+    size: object.size,
+    createdAt: object.lastModified.toISOString(),
+  };
+}
+
+/**
+ * Adds pixel dimensions and format to a file description
+ * Files sharp cannot decode are returned without them
+ *
+ * @param key - Object key of the file
+ * @param file - File description
+ * @returns File description with dimensions
+ */
+async function withDimensions(key: string, file: StoredFile): Promise<StoredFile> {
+  try {
+    const buffer = await getStorage().get(key);
+    if (!buffer) {
+      return file;
     }
+    const { width, height, format } = await sharp(buffer).metadata();
+    return { ...file, width, height, format };
+  } catch (error) {
+    console.warn(`[Storage] Could not read dimensions of ${file.filename}:`, error);
+    return file;
   }
+}
+
+/**
+ * Gets the batch ID encoded in a generated image filename
+ *
+ * @param filename - Image filename (img_{timestamp}_{batchId}_{index}.{ext})
+ * @returns Batch ID, or null if the filename does not follow the pattern
+ */
+export function getImageBatchId(filename: string): string | null {
+  const match = /^img_\d+_([^_]+)_\d+\./.exec(filename);
+  return match ? match[1] : null;
+}
+
+/**
+ * Describes a generated image (size and creation date)
+ *
+ * @param filename - Image filename
+ * @returns File description, or null if the image does not exist
+ */
+export async function getImageInfo(filename: string): Promise<StoredFile | null> {
+  const object = await getStorage().stat(getImageKey(filename));
+  return object ? describeFile(object, filename) : null;
+}
 
-  console.log(`[Storage] Successfully saved ${savedImages.length}/${imageBuffers.length} images`);
-  return savedImages;
+/**
+ * Describes a generated image including its pixel dimensions
+ *
+ * @param filename - Image filename
+ * @returns File description, or null if the image does not exist
+ */
+export async function inspectImage(filename: string): Promise<StoredFile | null> {
+  const info = await getImageInfo(filename);
+  return info ? withDimensions(getImageKey(filename), info) : null;
 }
 
 /**
- * Gets the full file system path to a generated image
- * 
+ * Reads a generated image
+ *
  * @param filename - Image filename
- * @returns Absolute file path
+ * @returns Image content, or null if the image does not exist
+ */
+export function readImage(filename: string): Promise<Buffer | null> {
+  return getStorage().get(getImageKey(filename));
+}
+
+/**
+ * Strong ETag of a stored image
+ * Stored filenames are unique and never rewritten, so the name identifies the content
+ *
+ * @param filename - Image or derivative filename
+ * @returns Quoted ETag value
  */
-export function getImagePath(filename: string): string {
-  return path.join(GENERATED_DIR, filename);
+export function getImageETag(filename: string): string {
+  return `"${crypto.createHash('sha256').update(filename).digest('hex')}"`;
 }
 
 /**
- * Deletes a generated image from the filesystem
- * 
+ * Storage key of a resized copy of a generated image
+ *
+ * @param filename - Derivative filename
+ * @returns Object key under the derivatives prefix
+ */
+function getDerivativeKey(filename: string): string {
+  return `${STORAGE.DERIVATIVES_PREFIX}/${filename}`;
+}
+
+/**
+ * Names a resized copy of a generated image
+ * Format: {image name without extension}_w{width}{extension}
+ *
+ * @param filename - Image filename
+ * @param width - Width of the copy in pixels
+ * @param extension - Extension of the copy's format
+ * @returns Derivative filename
+ */
+export function getDerivativeFilename(filename: string, width: number, extension: string): string {
+  return `${path.parse(filename).name}_w${width}${extension}`;
+}
+
+/**
+ * Saves a resized copy of a generated image
+ *
+ * @param buffer - Encoded copy
+ * @param filename - Derivative filename (see getDerivativeFilename)
+ * @returns Public URL of the copy
+ * @throws {StorageError} If the copy cannot be stored
+ */
+export async function saveDerivative(buffer: Buffer, filename: string): Promise<string> {
+  const key = getDerivativeKey(filename);
+  await getStorage().put(key, buffer, getContentType(filename));
+  return getStorage().getPublicUrl(key);
+}
+
+/**
+ * Reads a resized copy of a generated image
+ *
+ * @param filename - Derivative filename
+ * @returns Copy content, or null if it does not exist
+ */
+export function readDerivative(filename: string): Promise<Buffer | null> {
+  return getStorage().get(getDerivativeKey(filename));
+}
+
+/**
+ * Gets the key of the metadata sidecar stored next to a generated image
+ *
+ * @param filename - Image filename
+ * @returns Object key of the JSON sidecar
+ */
+function getMetadataKey(filename: string): string {
+  return getImageKey(`${filename}${STORAGE.METADATA_EXTENSION}`);
+}
+
+/**
+ * Saves the generation metadata of an image as a JSON sidecar
+ *
+ * @param filename - Image filename
+ * @param metadata - Generation metadata
+ */
+export async function saveImageMetadata(filename: string, metadata: ImageMetadata): Promise<void> {
+  await getStorage().put(
+    getMetadataKey(filename),
+    Buffer.from(JSON.stringify(metadata, null, 2)),
+    getContentType(STORAGE.METADATA_EXTENSION)
+  );
+}
+
+/**
+ * Reads the generation metadata of an image
+ *
+ * @param filename - Image filename
+ * @returns Generation metadata, or null if none was recorded
+ */
+export async function getImageMetadata(filename: string): Promise<ImageMetadata | null> {
+  const metadata = await getStorage().get(getMetadataKey(filename));
+  return metadata ? (JSON.parse(metadata.toString('utf-8')) as ImageMetadata) : null;
+}
+
+/**
+ * Deletes a generated image from storage
+ * Its metadata sidecar and resized copies are removed along with it
+ *
  * @param filename - Image filename to delete
  * @returns true if deleted successfully, false otherwise
  */
-export function deleteImage(filename: string): boolean {
+export async function deleteImage(filename: string): Promise<boolean> {
   try {
-    const filePath = getImagePath(filename);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    const derivatives = (await getImageMetadata(filename))?.derivatives ?? [];
+    if (await getStorage().delete(getImageKey(filename))) {
+      for (const derivative of derivatives) {
+        await getStorage().delete(getDerivativeKey(derivative.filename));
+      }
+      await getStorage().delete(getMetadataKey(filename));
+      await purgeTransforms(filename).catch((error) =>
+        console.warn(`[Storage] Failed to drop cached transforms of ${filename}:`, error)
+      );
       console.log(`[Storage] Deleted image: ${filename}`);
       return true;
     }
@@ -107,64 +323,74 @@ export function deleteImage(filename: string): boolean {
 }
 
 /**
- * Lists all generated PNG images in the storage directory
- * 
+ * Lists all generated images in storage
+ *
  * @returns Array of image filenames
  */
-export function listGeneratedImages(): string[] {
-  ensureGeneratedDir();
-  const files = fs.readdirSync(GENERATED_DIR)
-    .filter((file) => file.endsWith(STORAGE.FILE_EXTENSION));
-  
+export async function listGeneratedImages(): Promise<string[]> {
+  const objects = await getStorage().list(`${STORAGE.GENERATED_PREFIX}/`);
+  const files = objects
+    .map((object) => path.posix.basename(object.key))
+    .filter(isImageFilename);
+
   console.log(`[Storage] Found ${files.length} generated images`);
   return files;
 }
 
-// ============================================================================
-// Logo Storage Functions
-// ============================================================================
-
 /**
- * Full path to the logos directory
+ * Describes all generated images from a single listing of images and one of derivatives
+ * Sizes include each image's metadata sidecar and resized copies
+ *
+ * @returns Image descriptions in no particular order
  */
-const LOGOS_DIR = path.join(process.cwd(), 'public', 'logos');
+export async function describeGeneratedImages(): Promise<StoredFile[]> {
+  const [objects, derivatives] = await Promise.all([
+    getStorage().list(`${STORAGE.GENERATED_PREFIX}/`),
+    getStorage().list(`${STORAGE.DERIVATIVES_PREFIX}/`),
+  ]);
 
-/**
- * Ensures the logos directory exists
- * Creates the directory with all necessary parent directories if it doesn't exist
- */
-export function ensureLogosDir(): void {
-  if (!fs.existsSync(LOGOS_DIR)) {
-    fs.mkdirSync(LOGOS_DIR, { recursive: true });
-    console.log(`[Storage] Created logos directory: ${LOGOS_DIR}`);
-  }
+  // Extra bytes per image name without extension
+  const extraSizes = new Map<string, number>();
+  const addExtra = (name: string, size: number) => extraSizes.set(name, (extraSizes.get(name) ?? 0) + size);
+  objects
+    .filter((object) => object.key.endsWith(STORAGE.METADATA_EXTENSION))
+    .forEach((object) => addExtra(path.posix.parse(object.key.slice(0, -STORAGE.METADATA_EXTENSION.length)).name, object.size));
+  derivatives.forEach((object) => addExtra(path.posix.parse(object.key).name.replace(/_w\d+$/, ''), object.size));
+
+  return objects
+    .filter((object) => isImageFilename(object.key))
+    .map((object) => {
+      const file = describeFile(object, path.posix.basename(object.key));
+      return { ...file, size: file.size + (extraSizes.get(path.posix.parse(object.key).name) ?? 0) };
+    });
 }
 
+// ============================================================================
+// Logo Storage Functions
+// ============================================================================
+
 /**
- * Saves a logo file to the logos directory
- * 
+ * Saves an uploaded logo to storage
+ *
  * @param logoBuffer - Logo file buffer
  * @param filename - Original filename
  * @returns Saved logo filename and URL
  */
-export function saveLogoFile(logoBuffer: Buffer, filename: string): { filename: string; url: string } {
-  ensureLogosDir();
-  
+export async function saveLogoFile(logoBuffer: Buffer, filename: string): Promise<{ filename: string; url: string }> {
   // Generate unique filename
   const timestamp = Date.now();
   const ext = path.extname(filename);
   const basename = path.basename(filename, ext);
   const uniqueFilename = `${basename}_${timestamp}${ext}`;
-  
-  const filePath = path.join(LOGOS_DIR, uniqueFilename);
-  
+  const key = getLogoKey(uniqueFilename);
+
   try {
-    fs.writeFileSync(filePath, logoBuffer);
+    await getStorage().put(key, logoBuffer, getContentType(uniqueFilename));
     console.log(`[Storage] Saved logo: ${uniqueFilename}`);
-    
+
     return {
       filename: uniqueFilename,
-      url: `/logos/${uniqueFilename}`,
+      url: getStorage().getPublicUrl(key),
     };
   } catch (error) {
     console.error(`[Storage] Failed to save logo:`, error);
@@ -173,26 +399,35 @@ export function saveLogoFile(logoBuffer: Buffer, filename: string): { filename:
 }
 
 /**
- * Gets the full file system path to a logo file
- * 
+ * Gets the logo filename an image logo's content refers to
+ *
+ * @param content - Logo URL or filename from the logo settings
+ * @returns Logo filename
+ */
+export function getLogoFilename(content: string): string {
+  // Extract filename from URL or use as-is if it's already a filename
+  return content.includes('/') ? content.split('/').pop() || '' : content;
+}
+
+/**
+ * Reads an uploaded logo
+ *
  * @param filename - Logo filename
- * @returns Absolute file path
+ * @returns Logo content, or null if the logo does not exist
  */
-export function getLogoPath(filename: string): string {
-  return path.join(LOGOS_DIR, filename);
+export function readLogo(filename: string): Promise<Buffer | null> {
+  return getStorage().get(getLogoKey(filename));
 }
 
 /**
- * Deletes a logo file from the filesystem
- * 
+ * Deletes a logo from storage
+ *
  * @param filename - Logo filename to delete
  * @returns true if deleted successfully, false otherwise
  */
-export function deleteLogo(filename: string): boolean {
+export async function deleteLogo(filename: string): Promise<boolean> {
   try {
-    const filePath = getLogoPath(filename);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    if (await getStorage().delete(getLogoKey(filename))) {
       console.log(`[Storage] Deleted logo: ${filename}`);
       return true;
     }
@@ -205,14 +440,56 @@ export function deleteLogo(filename: string): boolean {
 }
 
 /**
- * Lists all logo files in the logos directory
- * 
+ * Checks that a logo filename refers to a file directly inside the logos directory
+ * Logo names keep the uploaded basename, so they may contain spaces
+ *
+ * @param filename - Filename to check
+ * @returns true if the filename is safe to use
+ */
+export function isSafeLogoFilename(filename: string): boolean {
+  return filename.length > 0 && !filename.startsWith('.') && path.basename(filename) === filename;
+}
+
+/**
+ * Describes a logo file (size and creation date)
+ *
+ * @param filename - Logo filename
+ * @returns File description, or null if the logo does not exist
+ */
+export async function getLogoInfo(filename: string): Promise<StoredFile | null> {
+  const object = await getStorage().stat(getLogoKey(filename));
+  return object ? describeFile(object, filename) : null;
+}
+
+/**
+ * Describes a logo file including its pixel dimensions
+ *
+ * @param filename - Logo filename
+ * @returns File description, or null if the logo does not exist
+ */
+export async function inspectLogo(filename: string): Promise<StoredFile | null> {
+  const info = await getLogoInfo(filename);
+  return info ? withDimensions(getLogoKey(filename), info) : null;
+}
+
+/**
+ * Lists all uploaded logos
+ *
  * @returns Array of logo filenames
  */
-export function listLogos(): string[] {
-  ensureLogosDir();
-  const files = fs.readdirSync(LOGOS_DIR);
+export async function listLogos(): Promise<string[]> {
+  const objects = await getStorage().list(`${STORAGE.LOGOS_PREFIX}/`);
+  const files = objects.map((object) => path.posix.basename(object.key));
   console.log(`[Storage] Found ${files.length} logos`);
   return files;
 }
 
+/**
+ * Describes all uploaded logos from a single storage listing
+ *
+ * @returns Logo descriptions in no particular order
+ */
+export async function describeLogos(): Promise<StoredFile[]> {
+  const objects = await getStorage().list(`${STORAGE.LOGOS_PREFIX}/`);
+  return objects.map((object) => describeFile(object, path.posix.basename(object.key)));
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { ImageTransform, OutputFormat } from '../types';
+import { encodeImage, resolveOutputSettings } from './image-encoding';
+import { readImage } from './image-storage';
+import { cacheTransform, getCachedTransform } from './transform-cache';
+import { IMAGE_TRANSFORM } from './constants';
+
+/**
+ * On-the-fly transformation of generated images
+ *
+ * GET /img/:filename resizes and re-encodes a generated image for sizes
+ * the pre-built derivatives do not cover. Results are cached on disk (see
+ * transform-cache); concurrent requests for the same transform share one
+ * encode.
+ */
+
+/**
+ * A transformed image
+ */
+export interface TransformedImage {
+  buffer: Buffer;
+  format: OutputFormat;
+  /** Hash of the source and transformation, stable across instances */
+  key: string;
+}
+
+/**
+ * Transforms being produced, by cache key
+ */
+const inFlight = new Map<string, Promise<Buffer | null>>();
+
+/**
+ * Fills in the defaults of a transformation
+ *
+ * @param transform - Parsed transformation (see validateImageTransform)
+ * @param sourceFormat - Format of the image being transformed
+ * @returns Transformation with format and quality set, and fit when resizing to a box
+ */
+function resolveTransform(transform: ImageTransform, sourceFormat: OutputFormat): ImageTransform {
+  const format = transform.format ?? sourceFormat;
+  const boxed = transform.width !== undefined && transform.height !== undefined;
+
+  return {
+    width: transform.width,
+    height: transform.height,
+    fit: boxed ? transform.fit ?? IMAGE_TRANSFORM.DEFAULT_FIT : undefined,
+    format,
+    quality: resolveOutputSettings({ format, quality: transform.quality }).quality,
+    background: transform.background,
+  };
+}
+
+/**
+ * Hashes a source filename and resolved transformation into a cache key
+ */
+function getTransformKey(filename: string, transform: ImageTransform): string {
+  const { width, height, fit, format, quality, background } = transform;
+  const canonical = JSON.stringify([filename, width ?? null, height ?? null, fit ?? null, format, quality ?? null, background ?? null]);
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Converts a hex color (RRGGBB or RRGGBBAA) to a sharp color
+ */
+function parseHexColor(hex: string): sharp.RGBA {
+  const [r, g, b, alpha = 255] = hex.match(/../g)!.map((pair) => parseInt(pair, 16));
+  return { r, g, b, alpha: alpha / 255 };
+}
+
+/**
+ * Resizes and encodes an image
+ *
+ * Letterboxing (fit contain) is transparent unless a background is given;
+ * formats without alpha are flattened onto the background, white by default.
+ */
+async function renderTransform(source: Buffer, transform: ImageTransform): Promise<Buffer> {
+  const background = transform.background ? parseHexColor(transform.background) : undefined;
+  let image = sharp(source);
+
+  if (transform.width !== undefined || transform.height !== undefined) {
+    image = image.resize({
+      width: transform.width,
+      height: transform.height,
+      fit: transform.fit,
+      background: background ?? { r: 0, g: 0, b: 0, alpha: 0 },
+    });
+  }
+
+  if (transform.format === 'jpeg') {
+    image = image.flatten({ background: background ?? { r: 255, g: 255, b: 255 } });
+  }
+
+  return encodeImage(image, resolveOutputSettings({ format: transform.format, quality: transform.quality, stripMetadata: true }));
+}
+
+/**
+ * Produces a transform, from the cache when possible
+ */
+async function produceTransform(filename: string, transform: ImageTransform, key: string): Promise<Buffer | null> {
+  const cached = await getCachedTransform(filename, key);
+  if (cached) {
+    return cached;
+  }
+
+  const source = await readImage(filename);
+  if (!source) {
+    return null;
+  }
+
+  const buffer = await renderTransform(source, transform);
+  try {
+    await cacheTransform(filename, key, buffer);
+  } catch (error) {
+    console.warn(`[Transform] Failed to cache ${filename}:`, error);
+  }
+  return buffer;
+}
+
+/**
+ * Transforms a generated image
+ *
+ * @param filename - Filename of the generated image
+ * @param transform - Parsed transformation (see validateImageTransform)
+ * @param sourceFormat - Format of the image, from its filename
+ * @returns Transformed image, or null if the image does not exist
+ */
+export async function transformImage(
+  filename: string,
+  transform: ImageTransform,
+  sourceFormat: OutputFormat
+): Promise<TransformedImage | null> {
+  const resolved = resolveTransform(transform, sourceFormat);
+  const key = getTransformKey(filename, resolved);
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = produceTransform(filename, resolved, key).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+
+  const buffer = await pending;
+  return buffer ? { buffer, format: resolved.format!, key } : null;
+}
@@ -0,0 +1,88 @@
+import { Job } from 'bullmq';
+import { GeneratedImage, GenerationProgress, GenerationStage } from '../types';
+import { PROGRESS } from './constants';
+
+/**
+ * Publishes per-stage progress for a generation job
+ *
+ * Each update is stored as the job's BullMQ progress, so it is both
+ * readable via Job#progress and broadcast through QueueEvents 'progress'.
+ * The payload always carries the full list of finished images so a client
+ * connecting late still receives everything produced so far.
+ */
+export interface ProgressReporter {
+  /** Reports entering a pipeline stage, optionally for a specific image index */
+  stage(stage: GenerationStage, message: string, imageIndex?: number): Promise<void>;
+  /** Reports that an image is finished and available at its URL */
+  imageReady(image: GeneratedImage): Promise<void>;
+  /** Reports that an image failed and was skipped */
+  imageFailed(imageIndex: number, reason: string): Promise<void>;
+  /** Reports that the whole job has finished */
+  completed(): Promise<void>;
+}
+
+/**
+ * Creates a progress reporter bound to a job
+ *
+ * @param job - The job being processed
+ * @param totalImages - Number of images requested
+ * @returns Progress reporter
+ */
+export function createProgressReporter(job: Job, totalImages: number): ProgressReporter {
+  const images: GeneratedImage[] = [];
+  let failedImages = 0;
+  let reportedPercent = 0;
+  const perImage = PROGRESS.IMAGES_PERCENT / Math.max(totalImages, 1);
+
+  // Images run in parallel and finish out of order, so progress follows the
+  // number of finished images rather than the index being worked on
+  const finishedPercent = () => PROGRESS.PROMPT_PERCENT + perImage * (images.length + failedImages);
+
+  const publish = async (
+    stage: GenerationStage,
+    message: string,
+    percent: number,
+    latestImage?: GeneratedImage
+  ): Promise<void> => {
+    // Never move backwards
+    reportedPercent = Math.max(reportedPercent, Math.min(100, Math.round(percent)));
+    const progress: GenerationProgress = {
+      stage,
+      percent: reportedPercent,
+      message,
+      completedImages: images.length,
+      failedImages,
+      totalImages,
+      images: [...images],
+      latestImage,
+    };
+    await job.updateProgress(progress);
+  };
+
+  return {
+    stage: (stage, message, imageIndex) => {
+      const percent = imageIndex === undefined
+        ? (stage === 'queued' ? 0 : PROGRESS.PROMPT_PERCENT)
+        : finishedPercent();
+      return publish(stage, message, percent);
+    },
+    imageReady: (image) => {
+      images.push(image);
+      return publish(
+        'image_ready',
+        `Image ${images.length}/${totalImages} ready`,
+        finishedPercent(),
+        image
+      );
+    },
+    imageFailed: (imageIndex, reason) => {
+      failedImages++;
+      return publish(
+        'image_failed',
+        `Image ${imageIndex + 1}/${totalImages} failed: ${reason}`,
+        finishedPercent()
+      );
+    },
+    completed: () => publish('completed', `Generated ${images.length}/${totalImages} images`, 100),
+  };
+}
@@ -1,6 +1,5 @@
 import sharp from 'sharp';
 import path from 'path';
-import fs from 'fs';
 import { LogoSettings, LogoPosition, DetectedObject } from '../types';
 import { LOGO } from './constants';
 
@@ -330,15 +329,17 @@ async function createTextWatermark(
  * 
  * @param baseImageBuffer - Base image buffer
  * @param logoSettings - Logo configuration
- * @param logoPath - Path to logo file
- * @returns Final composited image buffer
+ * @param logoBuffer - Logo image content
+ * @param signal - Checked before compositing
+ * @returns Base image with the composite pending (not yet encoded)
  */
 async function applyImageLogo(
   baseImageBuffer: Buffer,
   logoSettings: LogoSettings,
-  logoPath: string
-): Promise<Buffer> {
-  console.log(`[Logo Overlay] Applying image logo from: ${logoPath}`);
+  logoBuffer: Buffer,
+  signal?: AbortSignal
+): Promise<sharp.Sharp> {
+  console.log(`[Logo Overlay] Applying image logo (${logoBuffer.length} bytes)`);
   
   // Load base image metadata
   const baseImage = sharp(baseImageBuffer);
@@ -348,8 +349,7 @@ async function applyImageLogo(
     throw new Error('Could not determine base image dimensions');
   }
   
-  // Load and process logo
-  const logoBuffer = fs.readFileSync(logoPath);
+  // Process logo
   const { buffer: resizedLogo, width: logoWidth, height: logoHeight } = await resizeLogo(
     logoBuffer,
     baseMetadata.width,
@@ -385,16 +385,15 @@ async function applyImageLogo(
     `Size: ${logoSettings.size}%, Opacity: ${logoSettings.opacity}%`
   );
   
-  // Composite logo onto base image
-  return baseImage
-    .composite([{
-      input: processedLogo,
-      left: position.left,
-      top: position.top,
-      blend: 'over',
-    }])
-    .png()
-    .toBuffer();
+  signal?.throwIfAborted();
+  
+  // Composite logo onto base image; encoded once at the end of the pipeline
+  return baseImage.composite([{
+    input: processedLogo,
+    left: position.left,
+    top: position.top,
+    blend: 'over',
+  }]);
 }
 
 /**
@@ -402,12 +401,14 @@ async function applyImageLogo(
  * 
  * @param baseImageBuffer - Base image buffer
  * @param logoSettings - Logo configuration
- * @returns Final composited image buffer
+ * @param signal - Checked before compositing
+ * @returns Base image with the composite pending (not yet encoded)
  */
 async function applyTextWatermark(
   baseImageBuffer: Buffer,
-  logoSettings: LogoSettings
-): Promise<Buffer> {
+  logoSettings: LogoSettings,
+  signal?: AbortSignal
+): Promise<sharp.Sharp> {
   if (!logoSettings.content) {
     throw new Error('Text content is required for text watermark');
   }
@@ -460,16 +461,15 @@ async function applyTextWatermark(
     `Size: ${logoSettings.size}%, Opacity: ${logoSettings.opacity}%`
   );
   
-  // Composite text onto base image
-  return baseImage
-    .composite([{
-      input: processedText,
-      left: position.left,
-      top: position.top,
-      blend: 'over',
-    }])
-    .png()
-    .toBuffer();
+  signal?.throwIfAborted();
+  
+  // Composite text onto base image; encoded once at the end of the pipeline
+  return baseImage.composite([{
+    input: processedText,
+    left: position.left,
+    top: position.top,
+    blend: 'over',
+  }]);
 }
 
 /**
@@ -479,29 +479,34 @@ async function applyTextWatermark(
  * 
  * @param baseImageBuffer - Base image buffer
  * @param logoSettings - Logo configuration
- * @param logoPath - Path to logo file (required for image logos)
- * @returns Final composited image buffer
- * @throws Error if logo settings are invalid or logo file not found
+ * @param logoImage - Logo image content (required for image logos)
+ * @param signal - Aborted when the job is cancelled or times out; checked between steps
+ * @returns Base image with the composite pending (not yet encoded)
+ * @throws Error if logo settings are invalid or the logo file is missing
+ * @throws The signal's reason if it was aborted
  */
 export async function applyLogo(
   baseImageBuffer: Buffer,
   logoSettings: LogoSettings,
-  logoPath?: string
-): Promise<Buffer> {
+  logoImage?: Buffer,
+  signal?: AbortSignal
+): Promise<sharp.Sharp> {
+  signal?.throwIfAborted();
+  
   // Validate logo settings
   if (logoSettings.type === 'none') {
     console.log('[Logo Overlay] No logo to apply');
-    return baseImageBuffer;
+    return sharp(baseImageBuffer);
   }
   
   // Route to appropriate handler
   if (logoSettings.type === 'image') {
-    if (!logoPath || !fs.existsSync(logoPath)) {
-      throw new Error('Logo file path is required and must exist for image logos');
+    if (!logoImage) {
+      throw new Error('Logo file is required and must exist for image logos');
     }
-    return applyImageLogo(baseImageBuffer, logoSettings, logoPath);
+    return applyImageLogo(baseImageBuffer, logoSettings, logoImage, signal);
   } else if (logoSettings.type === 'text') {
-    return applyTextWatermark(baseImageBuffer, logoSettings);
+    return applyTextWatermark(baseImageBuffer, logoSettings, signal);
   }
   
   throw new Error(`Unsupported logo type: ${logoSettings.type}`);
@@ -196,12 +196,20 @@ function findPrimaryProduct(detections: DetectedObject[]): DetectedObject | null
 /**
  * Detect objects in an image using Replicate's YOLO model
  * 
+ * The prediction is cancelled on Replicate when the signal is aborted or
+ * detection takes longer than DETECTION_TIMEOUT_MS.
+ * 
  * @param imageBuffer - Image buffer to analyze
- * @returns Detected object with highest confidence, or null if none found
+ * @param signal - Aborted when the job is cancelled or times out
+ * @returns Detected object with highest confidence, or null if none found (or timed out)
+ * @throws The signal's reason if it was aborted
  */
 export async function detectProductInImage(
-  imageBuffer: Buffer
+  imageBuffer: Buffer,
+  signal?: AbortSignal
 ): Promise<DetectedObject | null> {
+  const timeout = AbortSignal.timeout(DETECTION_TIMEOUT_MS);
+
   try {
     console.log('[Object Detection] Starting detection...');
     
@@ -210,20 +218,22 @@ export async function detectProductInImage(
     
     // Run YOLO object detection model
     // Using a lightweight YOLO model for speed
-    const output = await Promise.race([
-      client.run(
-        'meta/meta-llama-3-70b-instruct' as any, // Model endpoint
-        {
-          input: {
-            image: dataUrl,
-            // Add any model-specific parameters here
-          },
-        }
-      ),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Detection timeout')), DETECTION_TIMEOUT_MS)
-      ),
-    ]);
+    const output = await client.run(
+      'meta/meta-llama-3-70b-instruct' as any, // Model endpoint
+      {
+        input: {
+          image: dataUrl,
+          // Add any model-specific parameters here
+        },
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      }
+    );
+    
+    // The client cancels the prediction and returns normally when aborted
+    signal?.throwIfAborted();
+    if (timeout.aborted) {
+      throw new Error('Detection timeout');
+    }
     
     console.log('[Object Detection] API response received');
     
@@ -246,6 +256,7 @@ export async function detectProductInImage(
     
     return primaryProduct;
   } catch (error) {
+    signal?.throwIfAborted();
     console.error('[Object Detection] Error:', error);
     return null;
   }
@@ -0,0 +1,612 @@
+import { Job, UnrecoverableError } from 'bullmq';
+import sharp from 'sharp';
+import {
+  DerivativeSettings,
+  DetectedObject,
+  GenerateRequest,
+  GeneratedImage,
+  GenerationSettings,
+  GenerationVariant,
+  ImageMetadata,
+  ImageModel,
+  ImageProviderName,
+  LogoSettings,
+  OptimizedPrompt,
+  OutputSettings,
+  Resolution,
+  Scheduler,
+  VariantGroup,
+} from '../types';
+import {
+  generateImages,
+  parseResolution,
+  resolveModelParameters,
+  resolveResolution,
+  locateProduct,
+  ProviderImage,
+} from './ai-provider';
+import { resolveModel } from './providers';
+import {
+  createImageBatch,
+  saveImage,
+  saveImageMetadata,
+  getLogoFilename,
+  readLogo,
+  ImageBatch,
+} from './image-storage';
+import { optimizePrompt } from './prompt-optimizer';
+import { applyLogo } from './logo-overlay';
+import { detectProductInImage, isObjectDetectionAvailable } from './object-detection';
+import { createProgressReporter, ProgressReporter } from './job-progress';
+import { expandVariants, isVariantMatrix } from './variants';
+import { BatchJobRef } from './batches';
+import { encodeImage, getOutputExtension, resolveOutputSettings } from './image-encoding';
+import { createDerivatives, resolveDerivativeSettings } from './derivatives';
+import { buildCacheKeys, cacheImage, getCachedImages } from './result-cache';
+import { IMAGE_LIMITS, PROVENANCE, QUEUE, RESULT_CACHE } from './constants';
+
+/**
+ * Image generation pipeline
+ *
+ * Runs one generation job from request to saved images. Invoked by the
+ * queue worker (see queue-redis.ts).
+ */
+
+/**
+ * Job data structure extending the base request with tracking ID
+ */
+export interface JobData extends GenerateRequest {
+  requestId: string;
+  /** Parent batch, for jobs queued from a product feed */
+  batch?: BatchJobRef;
+  /** Exact parameters of a previous image, for regeneration jobs */
+  replay?: ReplayParams;
+}
+
+/**
+ * Recorded generation parameters replayed by a regeneration job
+ */
+export type ReplayParams = Omit<
+  ImageMetadata,
+  'resolution' | 'detection' | 'jobId' | 'generatedAt' | 'createdAt' | 'derivatives'
+>;
+
+/**
+ * Worker result structure containing images and prompt
+ */
+export interface WorkerResult {
+  images: GeneratedImage[];
+  prompt: string;
+  negativePrompt: string;
+  /** Images grouped by variant (variant matrix requests only) */
+  variants?: VariantGroup[];
+}
+
+/**
+ * Failure reason recorded on jobs that were cancelled via the API
+ */
+export const JOB_CANCELLED_REASON = 'Job cancelled';
+
+/**
+ * Failure reason recorded on jobs that ran past QUEUE.JOB_TIMEOUT_MS
+ */
+export const JOB_TIMED_OUT_REASON = 'Job timed out';
+
+/**
+ * Creates the signal that stops a job's work when the job is cancelled or
+ * runs past its deadline
+ *
+ * The signal's reason is an UnrecoverableError (so BullMQ does not retry
+ * the job) carrying JOB_CANCELLED_REASON or JOB_TIMED_OUT_REASON. It is
+ * passed down to provider calls, object detection and logo compositing.
+ *
+ * @param workerSignal - Abort signal provided by the worker on cancellation
+ * @returns The job signal, and a function releasing its timer once the job ends
+ */
+function createJobSignal(workerSignal?: AbortSignal): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onCancel = () => controller.abort(new UnrecoverableError(JOB_CANCELLED_REASON));
+  const timer = setTimeout(
+    () => controller.abort(new UnrecoverableError(JOB_TIMED_OUT_REASON)),
+    QUEUE.JOB_TIMEOUT_MS
+  );
+
+  if (workerSignal?.aborted) {
+    onCancel();
+  } else {
+    workerSignal?.addEventListener('abort', onCancel, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      workerSignal?.removeEventListener('abort', onCancel);
+    },
+  };
+}
+
+/**
+ * Throws if the job has been cancelled or has timed out
+ *
+ * @param signal - Job signal (see createJobSignal)
+ * @param jobId - Job identifier for logging
+ * @throws {UnrecoverableError} If the job has been cancelled or has timed out
+ */
+function throwIfCancelled(signal: AbortSignal, jobId: string): void {
+  if (signal.aborted) {
+    console.warn(`[Worker] Job ${jobId}: ${(signal.reason as Error).message}, stopping`);
+    throw signal.reason;
+  }
+}
+
+/**
+ * Loads an uploaded image logo from storage
+ * Loaded once per job and composited onto every image
+ *
+ * @param logo - Logo settings
+ * @returns Logo content for image logos, undefined otherwise (or if it is missing)
+ */
+async function loadLogoImage(logo: LogoSettings): Promise<Buffer | undefined> {
+  if (logo.type !== 'image' || !logo.content) {
+    return undefined;
+  }
+  return (await readLogo(getLogoFilename(logo.content))) ?? undefined;
+}
+
+/**
+ * Gets the model a job generates with
+ * Replays use the model recorded with the image
+ *
+ * @param data - Job data
+ * @returns The requested (or recorded) model, or the provider's default model
+ */
+export function getJobModel(data: JobData): ImageModel {
+  return data.replay
+    ? resolveModel(data.replay.modelId, data.replay.provider)
+    : resolveModel(data.model, data.provider);
+}
+
+/**
+ * Generation settings with every default filled in
+ */
+export type ResolvedSettings = GenerationSettings &
+  Required<Pick<GenerationSettings, 'numImages' | 'resolution' | 'guidanceScale' | 'numInferenceSteps' | 'output' | 'derivatives'>>;
+
+/**
+ * Settings a job runs with: the request's settings with defaults filled in,
+ * or the recorded parameters of a regeneration job
+ *
+ * @param data - Job data
+ * @returns Resolved settings; the seed stays unset when images get random seeds
+ */
+export function resolveJobSettings(data: JobData): ResolvedSettings {
+  const { settings, replay } = data;
+  const model = getJobModel(data);
+
+  return {
+    numImages: replay ? 1 : settings?.numImages || IMAGE_LIMITS.DEFAULT_IMAGES,
+    resolution: replay ? `${replay.width}x${replay.height}` as Resolution : resolveResolution(settings, model),
+    aspectRatio: replay ? undefined : settings?.aspectRatio,
+    seed: replay ? replay.seed : settings?.seed,
+    cache: settings?.cache,
+    // Replays reuse the recorded sampling parameters
+    ...resolveModelParameters(replay || settings, model),
+    // Replays reuse the recorded encoding (PNG for images saved before formats were selectable)
+    output: resolveOutputSettings(replay ? replay.output : settings?.output),
+    derivatives: resolveDerivativeSettings(settings?.derivatives),
+  };
+}
+
+/**
+ * State shared by every image of a job
+ */
+interface PipelineContext {
+  jobId: string;
+  /** Model requested for the job */
+  model: ImageModel;
+  /** Whether other providers may be used when the requested one fails */
+  fallback: boolean;
+  /** Aborted when the job is cancelled or times out */
+  signal: AbortSignal;
+  progress: ProgressReporter;
+  batch: ImageBatch;
+  totalImages: number;
+  width: number;
+  height: number;
+  guidanceScale: number;
+  numInferenceSteps: number;
+  scheduler?: Scheduler;
+  seed?: number;
+  /** Encoding of the saved images, defaults filled in */
+  output: OutputSettings;
+  /** Resized copies saved with each image, defaults filled in */
+  derivatives: DerivativeSettings;
+  /** Uploaded logo content, for image logos */
+  logoImage?: Buffer;
+  /** Whether images may be served from and stored in the result cache */
+  cache: boolean;
+}
+
+/**
+ * Generates, finishes and saves the images of one variant
+ *
+ * Images of an identical earlier request are taken from the result cache
+ * (see result-cache.ts) instead of being generated again.
+ *
+ * Images are generated in parallel up to the provider's concurrency limit,
+ * and each one is finished as soon as it arrives:
+ * a. Detect products for smart logo positioning (first image, if enabled)
+ * b. Apply logo overlay if provided
+ * c. Encode the image in its output format with its provenance, save it with
+ *    its resized copies and sidecar, and publish it as ready
+ *
+ * @param ctx - Pipeline context
+ * @param variant - Variant being generated, undefined for plain requests
+ * @param prompt - Optimized prompt and negative prompt
+ * @param numImages - Images to generate for this variant
+ * @param offset - Index of this variant's first image within the job
+ * @param logo - Logo settings for this variant
+ * @returns Saved images
+ */
+async function generateVariant(
+  ctx: PipelineContext,
+  variant: GenerationVariant | undefined,
+  prompt: OptimizedPrompt,
+  numImages: number,
+  offset: number,
+  logo?: LogoSettings
+): Promise<GeneratedImage[]> {
+  const { jobId, signal, progress, totalImages } = ctx;
+  const hasLogo = !!logo && logo.type !== 'none';
+  const savedImages: GeneratedImage[] = [];
+  let detection: Promise<void> | undefined;
+
+  /**
+   * Locates the product for smart logo positioning and caches it in the
+   * logo settings for all images
+   */
+  const detectProduct = async (buffer: Buffer, provider: ImageProviderName, model: string, seed: number | undefined, position: number) => {
+    // Providers can only locate the product of an image they can reproduce
+    let detectedObject: DetectedObject | null | undefined = seed === undefined ? undefined : locateProduct(provider, {
+      model,
+      prompt: prompt.prompt,
+      negativePrompt: prompt.negativePrompt,
+      width: ctx.width,
+      height: ctx.height,
+      seed,
+      guidanceScale: ctx.guidanceScale,
+      numInferenceSteps: ctx.numInferenceSteps,
+      scheduler: ctx.scheduler,
+    });
+
+    if (detectedObject === undefined && isObjectDetectionAvailable()) {
+      console.log(`[Worker] Job ${jobId}: Running object detection for smart positioning...`);
+      await progress.stage('detecting', 'Detecting product for smart logo positioning', position);
+      detectedObject = await detectProductInImage(buffer, signal);
+    }
+
+    if (detectedObject && logo) {
+      logo.detectionData = detectedObject;
+      console.log(`[Worker] Job ${jobId}: Product detected, will use smart positioning`);
+    } else if (detectedObject === null) {
+      console.warn(`[Worker] Job ${jobId}: No product detected, falling back to regular positioning`);
+    } else {
+      console.warn(`[Worker] Job ${jobId}: Smart positioning requested but REPLICATE_API_TOKEN not configured`);
+    }
+  };
+
+  /**
+   * Finishes a generated image: detection, logo, provenance, save
+   */
+  const finishImage = async ({ buffer, seed, provider, model, modelId }: ProviderImage, index: number) => {
+    throwIfCancelled(signal, jobId);
+    const position = offset + index;
+    const generatedAt = new Date().toISOString();
+    let image = sharp(buffer);
+
+    // a. Detect products for smart logo positioning (once, on the first image
+    //    to arrive; images finishing meanwhile wait for the result)
+    if (logo && hasLogo && logo.smartPositioning) {
+      detection = detection || detectProduct(buffer, provider, model, seed, position);
+      await detection;
+    }
+
+    // b. Apply logo overlay if provided
+    if (logo && hasLogo) {
+      await progress.stage('applying_logo', `Applying ${logo.type} logo to image ${position + 1}/${totalImages}`, position);
+      try {
+        image = await applyLogo(buffer, logo, ctx.logoImage, signal);
+        console.log(`[Worker] Job ${jobId}: Logo applied to image ${position + 1}/${totalImages}`);
+      } catch (error) {
+        throwIfCancelled(signal, jobId);
+        console.error(`[Worker] Job ${jobId}: Failed to apply logo to image ${position + 1}:`, error);
+        // Keep original image if logo application fails
+      }
+    }
+
+    // c. Encode and save the final image with its provenance, and publish it
+    await progress.stage('saving', `Saving image ${position + 1}/${totalImages}`, position);
+    const metadata: ImageMetadata = {
+      provider,
+      model,
+      modelId,
+      prompt: prompt.prompt,
+      negativePrompt: prompt.negativePrompt,
+      seed,
+      width: ctx.width,
+      height: ctx.height,
+      resolution: `${ctx.width}x${ctx.height}`,
+      guidanceScale: ctx.guidanceScale,
+      numInferenceSteps: ctx.numInferenceSteps,
+      scheduler: ctx.scheduler,
+      output: ctx.output,
+      logo: hasLogo ? { ...logo, detectionData: undefined } : undefined,
+      detection: logo?.detectionData,
+      jobId,
+      generatedAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      // Encode once, in the requested format, embedding the provenance
+      const finalBuffer = await encodeImage(image, ctx.output, PROVENANCE.EMBED_IN_FILE ? metadata : undefined);
+      const savedImage = await saveImage(finalBuffer, ctx.batch, position, getOutputExtension(ctx.output.format));
+      savedImage.seed = seed;
+      savedImage.provider = provider;
+      if (variant) {
+        savedImage.variant = variant.key;
+      }
+
+      // Resized copies for responsive images, recorded in the sidecar so they are deleted with the image
+      try {
+        const derivatives = await createDerivatives(finalBuffer, savedImage.filename, ctx.output, ctx.derivatives, signal);
+        if (derivatives.length > 0) {
+          savedImage.variants = derivatives;
+          metadata.derivatives = derivatives;
+        }
+      } catch (error) {
+        throwIfCancelled(signal, jobId);
+        console.error(`[Worker] Job ${jobId}: Failed to create resized copies of image ${position + 1}:`, error);
+        // The full-size image is still usable
+      }
+
+      await saveImageMetadata(savedImage.filename, metadata);
+      savedImages[index] = savedImage;
+      console.log(`[Worker] Job ${jobId}: Saved image ${position + 1}/${totalImages}: ${savedImage.filename}`);
+      await progress.imageReady(savedImage);
+    } catch (error) {
+      console.error(`[Worker] Job ${jobId}: Failed to save image ${position + 1}:`, error);
+      // Continue with other images even if one fails
+    }
+  };
+
+  // Serve identical earlier requests from the result cache
+  const cacheKeys = ctx.cache && ctx.seed !== undefined
+    ? buildCacheKeys({
+      prompt: prompt.prompt,
+      negativePrompt: prompt.negativePrompt,
+      provider: ctx.model.provider,
+      model: ctx.model.model,
+      modelId: ctx.model.id,
+      width: ctx.width,
+      height: ctx.height,
+      guidanceScale: ctx.guidanceScale,
+      numInferenceSteps: ctx.numInferenceSteps,
+      scheduler: ctx.scheduler,
+      seed: ctx.seed,
+    }, numImages)
+    : undefined;
+  const cachedImages = cacheKeys
+    ? await getCachedImages(cacheKeys).catch((error) => {
+      console.error(`[Worker] Job ${jobId}: Result cache lookup failed:`, error);
+      return null;
+    })
+    : null;
+
+  if (cachedImages) {
+    console.log(`[Worker] Job ${jobId}: Serving ${numImages} image(s) from the result cache`);
+    for (let i = 0; i < cachedImages.length; i++) {
+      throwIfCancelled(signal, jobId);
+      await finishImage(cachedImages[i], i);
+    }
+    return savedImages.filter(Boolean);
+  }
+
+  await generateImages({
+    model: ctx.model.id,
+    fallback: ctx.fallback,
+    prompt: prompt.prompt,
+    negativePrompt: prompt.negativePrompt,
+    numImages,
+    width: ctx.width,
+    height: ctx.height,
+    seed: ctx.seed,
+    guidanceScale: ctx.guidanceScale,
+    numInferenceSteps: ctx.numInferenceSteps,
+    scheduler: ctx.scheduler,
+    signal,
+    onImageStart: async (index) => {
+      throwIfCancelled(signal, jobId);
+      const position = offset + index;
+      await progress.stage('generating', `Generating image ${position + 1}/${totalImages}`, position);
+    },
+    onRetry: async (retry, index) => {
+      throwIfCancelled(signal, jobId);
+      const position = offset + index;
+      await progress.stage(
+        'retrying',
+        `${retry.provider}: ${retry.reason}; retrying image ${position + 1}/${totalImages} ` +
+        `in ${Math.ceil(retry.delayMs / 1000)}s (${retry.attempt}/${retry.maxAttempts})`,
+        position
+      );
+    },
+    onImageGenerated: async (image, index) => {
+      if (cacheKeys) {
+        await cacheImage(cacheKeys[index], image).catch((error) => {
+          console.error(`[Worker] Job ${jobId}: Failed to cache image ${offset + index + 1}:`, error);
+        });
+      }
+      await finishImage(image, index);
+    },
+    onImageFailed: async (error, index) => {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      await progress.imageFailed(offset + index, reason);
+    },
+  });
+
+  // Images finish in any order; keep request order
+  return savedImages.filter(Boolean);
+}
+
+/**
+ * Processes an image generation job
+ *
+ * Job processing flow:
+ * 1. Extract and validate job parameters
+ * 2. Expand style/angle/color into variants (a single one for plain requests)
+ * 3. Optimize the prompt for each variant (regeneration jobs reuse the recorded prompt)
+ * 4. Generate, finish and save each variant's images (see generateVariant)
+ * 5. Return saved image metadata and prompt, grouped by variant for matrix requests
+ *
+ * Every step is published as job progress (see job-progress.ts).
+ * Cancellation and the job deadline (QUEUE.JOB_TIMEOUT_MS) abort provider
+ * calls, object detection and logo compositing in flight, and are checked
+ * between steps; the job then fails with JOB_CANCELLED_REASON or
+ * JOB_TIMED_OUT_REASON.
+ *
+ * In variant matrix mode a failing variant is reported in its group and the
+ * remaining variants still run; the job only fails if no image was produced.
+ *
+ * @param job - Job to process
+ * @param workerSignal - Abort signal fired when the job is cancelled
+ * @returns Saved images and prompt
+ */
+export async function processGenerationJob(job: Job<JobData>, workerSignal?: AbortSignal): Promise<WorkerResult> {
+  const { signal, dispose } = createJobSignal(workerSignal);
+  try {
+    return await runGenerationJob(job, signal);
+  } finally {
+    dispose();
+  }
+}
+
+/**
+ * Runs the steps of a generation job (see processGenerationJob)
+ *
+ * @param job - Job to process
+ * @param signal - Job signal (see createJobSignal)
+ * @returns Saved images and prompt
+ */
+async function runGenerationJob(job: Job<JobData>, signal: AbortSignal): Promise<WorkerResult> {
+  const jobId = job.id || 'unknown';
+  const descPreview = job.data.description.substring(0, 50);
+
+  console.log(`[Worker] Starting job ${jobId}: "${descPreview}..."`);
+
+  const { description, category, logo, replay } = job.data;
+
+  // Apply defaults for optional parameters
+  const safeCategory = category || 'other';
+  const settings = resolveJobSettings(job.data);
+  const numImages = settings.numImages;
+  const model = getJobModel(job.data);
+  const resolution = settings.resolution;
+  const matrix = !replay && isVariantMatrix(job.data);
+  const variants = expandVariants(replay ? {} : job.data);
+  const totalImages = variants.length * numImages;
+
+  console.log(
+    `[Worker] Job ${jobId} settings: ${numImages} images at ${resolution} ` +
+    `[${safeCategory}/${variants.map((v) => v.key).join(', ')}]`
+  );
+  if (logo && logo.type !== 'none') {
+    console.log(`[Worker] Job ${jobId} logo: ${logo.type} at ${logo.position}${logo.smartPositioning ? ' (smart positioning)' : ''}`);
+  }
+
+  const progress = createProgressReporter(job, totalImages);
+
+  // Optimize the prompt for every variant
+  console.log(`[Worker] Job ${jobId}: Optimizing prompt...`);
+  await progress.stage('optimizing_prompt', 'Optimizing prompt');
+  const prompts: OptimizedPrompt[] = replay
+    ? [{ prompt: replay.prompt, negativePrompt: replay.negativePrompt }]
+    : variants.map((variant) =>
+      optimizePrompt(description, safeCategory, variant.style, variant.angle, variant.color)
+    );
+
+  throwIfCancelled(signal, jobId);
+
+  const { width, height } = parseResolution(resolution);
+  const { seed } = settings;
+  const ctx: PipelineContext = {
+    jobId,
+    model,
+    // Replays must use the recorded model to reproduce the image
+    fallback: !replay,
+    signal,
+    progress,
+    batch: createImageBatch(),
+    totalImages,
+    width,
+    height,
+    guidanceScale: settings.guidanceScale,
+    numInferenceSteps: settings.numInferenceSteps,
+    scheduler: settings.scheduler,
+    seed,
+    output: settings.output,
+    derivatives: settings.derivatives,
+    logoImage: logo ? await loadLogoImage(logo) : undefined,
+    // Unseeded requests draw new random seeds, so they never hit or fill the cache
+    cache: RESULT_CACHE.ENABLED && settings.cache !== false && seed !== undefined,
+  };
+
+  // Generate images for each variant
+  console.log(`[Worker] Job ${jobId}: Generating ${totalImages} images...`);
+  const groups: VariantGroup[] = [];
+  let firstError: unknown;
+
+  for (let v = 0; v < variants.length; v++) {
+    const variant = variants[v];
+    const group: VariantGroup = { ...variant, prompt: prompts[v].prompt, images: [] };
+    groups.push(group);
+
+    // Each variant detects its own product position (angles differ)
+    const variantLogo = logo ? { ...logo } : undefined;
+
+    try {
+      group.images = await generateVariant(
+        ctx,
+        matrix ? variant : undefined,
+        prompts[v],
+        numImages,
+        v * numImages,
+        variantLogo
+      );
+    } catch (error) {
+      // Cancellation and plain (non-matrix) failures end the job
+      if (!matrix || error instanceof UnrecoverableError) {
+        throw error;
+      }
+      console.error(`[Worker] Job ${jobId}: Variant ${variant.key} failed:`, error);
+      group.error = error instanceof Error ? error.message : 'Unknown error';
+      firstError = firstError || error;
+    }
+  }
+
+  const savedImages = groups.flatMap((group) => group.images);
+  if (savedImages.length === 0 && firstError) {
+    throw firstError;
+  }
+
+  await progress.completed();
+  console.log(`[Worker] Job ${jobId} completed: ${savedImages.length} images saved`);
+
+  // Return both images and prompt for frontend display
+  return {
+    images: savedImages,
+    prompt: prompts[0].prompt,
+    negativePrompt: prompts[0].negativePrompt,
+    variants: matrix ? groups : undefined,
+  };
+}
@@ -0,0 +1,165 @@
+import zlib from 'zlib';
+import { ImageMetadata } from '../types';
+import { PROVENANCE } from './constants';
+
+/**
+ * Image provenance embedding
+ *
+ * The JSON sidecar (see image-storage.ts) is the full provenance record.
+ * The key fields are also embedded in the image file itself, so they travel
+ * with it once it leaves this service:
+ * - PNG: iTXt text chunks (Description, Source, Creation Time, Comment)
+ *   plus an XMP packet, inserted after encoding
+ * - Other formats: an XMP packet written by sharp while encoding
+ *   (see image-encoding.ts)
+ */
+
+/**
+ * PNG file signature
+ */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * PNG keyword under which XMP packets are stored
+ */
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+/**
+ * Escapes a value for use as XML text
+ */
+function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds the XMP packet describing how an image was generated
+ *
+ * @param metadata - Image provenance
+ * @returns XMP packet
+ */
+export function buildXmpPacket(metadata: ImageMetadata): string {
+  const ns = PROVENANCE.XMP_PREFIX;
+  const fields: [string, string | number | undefined][] = [
+    ['Model', metadata.model],
+    ['Prompt', metadata.prompt],
+    ['NegativePrompt', metadata.negativePrompt],
+    ['Seed', metadata.seed],
+    ['GuidanceScale', metadata.guidanceScale],
+    ['InferenceSteps', metadata.numInferenceSteps],
+    ['Resolution', metadata.resolution],
+    ['JobId', metadata.jobId],
+  ];
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    `    xmlns:${ns}="${PROVENANCE.XMP_NAMESPACE}"`,
+    `    xmp:CreatorTool="${escapeXml(metadata.model)}"`,
+    `    xmp:CreateDate="${escapeXml(metadata.createdAt)}"`,
+    `    Iptc4xmpExt:DigitalSourceType="${PROVENANCE.DIGITAL_SOURCE_TYPE}">`,
+    '   <dc:description>',
+    '    <rdf:Alt>',
+    `     <rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li>`,
+    '    </rdf:Alt>',
+    '   </dc:description>',
+    ...fields
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `   <${ns}:${name}>${escapeXml(value!)}</${ns}:${name}>`),
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/**
+ * Builds an uncompressed PNG iTXt chunk (UTF-8 text)
+ *
+ * @param keyword - Latin-1 keyword (1-79 characters)
+ * @param text - UTF-8 text
+ * @returns Complete chunk: length, type, data and CRC
+ */
+function buildTextChunk(keyword: string, text: string): Buffer {
+  // keyword \0, compression flag, compression method, language tag \0, translated keyword \0, text
+  const data = Buffer.concat([
+    Buffer.from(keyword, 'latin1'),
+    Buffer.from([0, 0, 0, 0, 0]),
+    Buffer.from(text, 'utf-8'),
+  ]);
+  const typeAndData = Buffer.concat([Buffer.from('iTXt', 'ascii'), data]);
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(typeAndData));
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Finds the offset of the first IDAT chunk of a PNG file
+ * Text chunks are inserted there so readers find them before the image data
+ *
+ * @param png - PNG file contents
+ * @returns Offset of the first IDAT chunk, or -1 if the file is malformed
+ */
+function findImageDataOffset(png: Buffer): number {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    if (png.toString('ascii', offset + 4, offset + 8) === 'IDAT') {
+      return offset;
+    }
+    offset += length + 12;
+  }
+  return -1;
+}
+
+/**
+ * Embeds the key provenance fields into a PNG file
+ *
+ * Text chunks are inserted without re-encoding. A file that is not a PNG,
+ * or whose chunks cannot be walked, is returned unchanged.
+ *
+ * @param buffer - Encoded PNG file contents
+ * @param metadata - Image provenance
+ * @returns Image with provenance embedded
+ */
+export function embedPngProvenance(buffer: Buffer, metadata: ImageMetadata): Buffer {
+  if (!buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    console.warn('[Provenance] Not a PNG file, skipping text chunks');
+    return buffer;
+  }
+
+  const dataOffset = findImageDataOffset(buffer);
+  if (dataOffset === -1) {
+    console.warn('[Provenance] Could not locate PNG image data, skipping embedding');
+    return buffer;
+  }
+
+  const chunks = [
+    buildTextChunk('Description', metadata.prompt),
+    buildTextChunk('Source', metadata.model),
+    buildTextChunk('Creation Time', metadata.createdAt),
+    buildTextChunk('Comment', JSON.stringify({
+      negativePrompt: metadata.negativePrompt,
+      seed: metadata.seed,
+      guidanceScale: metadata.guidanceScale,
+      numInferenceSteps: metadata.numInferenceSteps,
+      resolution: metadata.resolution,
+      jobId: metadata.jobId,
+    })),
+    buildTextChunk(XMP_PNG_KEYWORD, buildXmpPacket(metadata)),
+  ];
+
+  return Buffer.concat([buffer.subarray(0, dataOffset), ...chunks, buffer.subarray(dataOffset)]);
+}
@@ -0,0 +1,162 @@
+import { CircuitStatus, ImageProviderName } from '../../types';
+import { CIRCUIT_BREAKER } from '../constants';
+
+/**
+ * Per-provider circuit breaker
+ *
+ * Tracks the outcome of the most recent calls to each provider. Once the
+ * failure rate over that window reaches the threshold, the circuit opens and
+ * the provider is skipped for a cooldown period. After the cooldown a single
+ * trial call is let through: success closes the circuit, failure reopens it.
+ * Outcomes of other calls that were already in flight when the circuit
+ * opened are ignored.
+ *
+ * State is kept in memory, per worker process.
+ */
+
+/**
+ * Breaker state of one provider
+ */
+interface Breaker {
+  /** Outcomes of the most recent calls, oldest first (true = failure) */
+  outcomes: boolean[];
+  /** Epoch ms when the circuit opened, undefined while closed */
+  openedAt?: number;
+  /** Whether a half-open trial call is in flight */
+  trialInFlight: boolean;
+}
+
+/**
+ * Permission to make one call, returned by tryAcquire
+ */
+export interface CircuitPermit {
+  provider: ImageProviderName;
+  /** Whether this is the half-open trial call */
+  trial: boolean;
+}
+
+const breakers = new Map<ImageProviderName, Breaker>();
+
+/**
+ * Gets (or creates) the breaker of a provider
+ */
+function getBreaker(provider: ImageProviderName): Breaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = { outcomes: [], trialInFlight: false };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Failure rate over the recent call window
+ */
+function failureRate(breaker: Breaker): number {
+  if (breaker.outcomes.length === 0) {
+    return 0;
+  }
+  return breaker.outcomes.filter(Boolean).length / breaker.outcomes.length;
+}
+
+/**
+ * Checks whether a call to a provider may be made, and claims the trial
+ * call if the circuit is half-open
+ *
+ * @param provider - Provider name
+ * @returns Permit to pass to recordOutcome or releaseCall, or null if the call may not proceed
+ */
+export function tryAcquire(provider: ImageProviderName): CircuitPermit | null {
+  const breaker = getBreaker(provider);
+
+  if (breaker.openedAt === undefined) {
+    return { provider, trial: false };
+  }
+  if (Date.now() - breaker.openedAt < CIRCUIT_BREAKER.COOLDOWN_MS || breaker.trialInFlight) {
+    return null;
+  }
+
+  breaker.trialInFlight = true;
+  return { provider, trial: true };
+}
+
+/**
+ * Records the outcome of a call to a provider
+ *
+ * @param permit - Permit the call was made with
+ * @param failed - Whether the call failed in a way that indicates provider trouble
+ */
+export function recordOutcome(permit: CircuitPermit, failed: boolean): void {
+  const { provider } = permit;
+  const breaker = getBreaker(provider);
+
+  if (permit.trial) {
+    breaker.trialInFlight = false;
+    if (failed) {
+      breaker.openedAt = Date.now();
+      console.warn(`[Circuit Breaker] ${provider}: trial call failed, circuit reopened`);
+    } else {
+      breaker.openedAt = undefined;
+      breaker.outcomes = [];
+      console.log(`[Circuit Breaker] ${provider}: trial call succeeded, circuit closed`);
+    }
+    return;
+  }
+  if (breaker.openedAt !== undefined) {
+    // Started before the circuit opened; only the trial decides
+    return;
+  }
+
+  breaker.outcomes.push(failed);
+  if (breaker.outcomes.length > CIRCUIT_BREAKER.WINDOW_SIZE) {
+    breaker.outcomes.shift();
+  }
+
+  if (
+    failed &&
+    breaker.outcomes.length >= CIRCUIT_BREAKER.MIN_CALLS &&
+    failureRate(breaker) >= CIRCUIT_BREAKER.FAILURE_RATE_THRESHOLD
+  ) {
+    breaker.openedAt = Date.now();
+    console.warn(
+      `[Circuit Breaker] ${provider}: failure rate ${Math.round(failureRate(breaker) * 100)}%, ` +
+      `circuit opened for ${CIRCUIT_BREAKER.COOLDOWN_MS / 1000}s`
+    );
+  }
+}
+
+/**
+ * Releases a call that was abandoned (cancelled) without an outcome
+ * Frees the half-open trial slot if this was the trial, so a later call can run it
+ *
+ * @param permit - Permit the call was made with
+ */
+export function releaseCall(permit: CircuitPermit): void {
+  if (permit.trial) {
+    getBreaker(permit.provider).trialInFlight = false;
+  }
+}
+
+/**
+ * Gets the breaker status of a provider
+ *
+ * @param provider - Provider name
+ * @returns Current circuit status
+ */
+export function getCircuitStatus(provider: ImageProviderName): CircuitStatus {
+  const breaker = getBreaker(provider);
+  const status: CircuitStatus = {
+    state: 'closed',
+    failureRate: failureRate(breaker),
+    calls: breaker.outcomes.length,
+  };
+
+  if (breaker.openedAt !== undefined) {
+    const retryAt = breaker.openedAt + CIRCUIT_BREAKER.COOLDOWN_MS;
+    status.state = Date.now() >= retryAt ? 'half_open' : 'open';
+    status.openedAt = new Date(breaker.openedAt).toISOString();
+    status.retryAt = new Date(retryAt).toISOString();
+  }
+
+  return status;
+}
@@ -0,0 +1,82 @@
+import { ImageProviderName } from '../../types';
+
+/**
+ * Per-provider concurrency limits
+ *
+ * Caps the number of calls in flight to each provider across the worker
+ * process. Callers over the limit wait in FIFO order for a free slot.
+ */
+
+/**
+ * Slot usage of one provider
+ */
+interface SlotPool {
+  /** Calls currently in flight */
+  active: number;
+  /** Callers waiting for a slot, oldest first */
+  waiting: (() => void)[];
+}
+
+const pools = new Map<ImageProviderName, SlotPool>();
+
+/**
+ * Gets (or creates) the slot pool of a provider
+ */
+function getPool(provider: ImageProviderName): SlotPool {
+  let pool = pools.get(provider);
+  if (!pool) {
+    pool = { active: 0, waiting: [] };
+    pools.set(provider, pool);
+  }
+  return pool;
+}
+
+/**
+ * Waits for a free call slot of a provider
+ *
+ * @param provider - Provider name
+ * @param limit - Maximum calls in flight for the provider
+ * @param signal - Stops waiting when aborted
+ * @returns Function releasing the slot; must be called exactly once
+ * @throws The signal's reason if it is aborted while waiting
+ */
+export async function acquireSlot(
+  provider: ImageProviderName,
+  limit: number,
+  signal?: AbortSignal
+): Promise<() => void> {
+  signal?.throwIfAborted();
+  const pool = getPool(provider);
+
+  if (pool.active >= limit) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        pool.waiting.splice(pool.waiting.indexOf(grant), 1);
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      pool.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  } else {
+    pool.active++;
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    // Hand the slot straight to the next waiter, keeping the active count
+    const next = pool.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      pool.active--;
+    }
+  };
+}
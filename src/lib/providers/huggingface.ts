@@ -0,0 +1,188 @@
+import https from 'https';
+import { ImageModel, Scheduler } from '../../types';
+import {
+  DEFAULT_PARAMETER_LIMITS,
+  DEFAULT_PARAMETERS,
+  ImageProvider,
+  ProviderConfigError,
+  ProviderError,
+  ProviderRequest,
+} from './types';
+import { AI_PARAMS, IMAGE_LIMITS } from '../constants';
+
+/**
+ * HuggingFace Inference API provider
+ * Free tier allows one request at a time; raise HUGGINGFACE_CONCURRENCY on paid plans
+ */
+
+/**
+ * HuggingFace API configuration
+ */
+const HF_CONFIG = {
+  API_URL: 'https://router.huggingface.co/hf-inference/models',
+  DEFAULT_MODEL: process.env.HUGGINGFACE_DEFAULT_MODEL || 'sdxl-base',
+  CONCURRENCY: Number(process.env.HUGGINGFACE_CONCURRENCY) || 1, // Free tier: one request at a time
+} as const;
+
+/**
+ * Diffusers scheduler classes the Inference API accepts
+ */
+const HF_SCHEDULERS: Partial<Record<Scheduler, string>> = {
+  ddim: 'DDIMScheduler',
+  dpm_multistep: 'DPMSolverMultistepScheduler',
+  euler: 'EulerDiscreteScheduler',
+  euler_ancestral: 'EulerAncestralDiscreteScheduler',
+  heun: 'HeunDiscreteScheduler',
+  pndm: 'PNDMScheduler',
+};
+
+/**
+ * Models served through the Inference API
+ */
+const HF_MODELS: ImageModel[] = [
+  {
+    id: 'sdxl-base',
+    name: 'Stable Diffusion XL 1.0',
+    provider: 'huggingface',
+    model: 'stabilityai/stable-diffusion-xl-base-1.0',
+    capabilities: { negativePrompt: true, seed: true, guidanceScale: true, inferenceSteps: true },
+    supportedResolutions: IMAGE_LIMITS.SUPPORTED_RESOLUTIONS,
+    defaults: DEFAULT_PARAMETERS,
+    limits: DEFAULT_PARAMETER_LIMITS,
+    schedulers: Object.keys(HF_SCHEDULERS) as Scheduler[],
+    relativeCost: 1,
+  },
+  {
+    // Distilled for 1-4 steps without classifier-free guidance
+    id: 'sdxl-turbo',
+    name: 'SDXL Turbo',
+    provider: 'huggingface',
+    model: 'stabilityai/sdxl-turbo',
+    capabilities: { negativePrompt: false, seed: true, guidanceScale: false, inferenceSteps: true },
+    supportedResolutions: ['512x512'],
+    defaults: { guidanceScale: 0, inferenceSteps: 1 },
+    limits: {
+      guidanceScale: { min: 0, max: 0 },
+      inferenceSteps: { min: 1, max: 4 },
+    },
+    schedulers: [],
+    relativeCost: 0.1,
+  },
+  {
+    id: 'sd-1.5',
+    name: 'Stable Diffusion 1.5',
+    provider: 'huggingface',
+    model: 'stable-diffusion-v1-5/stable-diffusion-v1-5',
+    capabilities: { negativePrompt: true, seed: true, guidanceScale: true, inferenceSteps: true },
+    supportedResolutions: ['512x512', '768x768'],
+    defaults: DEFAULT_PARAMETERS,
+    limits: DEFAULT_PARAMETER_LIMITS,
+    schedulers: Object.keys(HF_SCHEDULERS) as Scheduler[],
+    relativeCost: 0.4,
+  },
+];
+
+/**
+ * Calls the HuggingFace Inference API to generate a single image
+ *
+ * @param request - Prompt, size and sampling parameters
+ * @param signal - Aborts the HTTP request
+ * @returns Promise resolving to image buffer
+ * @throws {ProviderError} If API call fails or model is loading
+ */
+async function callHuggingFace(request: ProviderRequest, signal?: AbortSignal): Promise<Buffer> {
+  const token = process.env.HUGGINGFACE_API_TOKEN;
+
+  if (!token) {
+    throw new ProviderConfigError(
+      'huggingface',
+      'HUGGINGFACE_API_TOKEN environment variable is not set. ' +
+      'Get a free token at https://huggingface.co/settings/tokens'
+    );
+  }
+
+  // Models outside the catalogue are assumed to take a negative prompt
+  const model = HF_MODELS.find((candidate) => candidate.model === request.model);
+  const negativePrompt = model?.capabilities.negativePrompt ?? true;
+
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify({
+      inputs: request.prompt,
+      parameters: {
+        negative_prompt: negativePrompt ? request.negativePrompt : undefined,
+        width: request.width,
+        height: request.height,
+        guidance_scale: request.guidanceScale,
+        num_inference_steps: request.numInferenceSteps,
+        seed: request.seed,
+        scheduler: request.scheduler && HF_SCHEDULERS[request.scheduler],
+      },
+    });
+
+    const options = {
+      method: 'POST',
+      signal,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload),
+      },
+    };
+
+    const req = https.request(`${HF_CONFIG.API_URL}/${request.model}`, options, (res) => {
+      const chunks: Buffer[] = [];
+
+      res.on('data', (chunk) => chunks.push(chunk));
+
+      res.on('end', () => {
+        const data = Buffer.concat(chunks);
+
+        if (res.statusCode === 200) {
+          // Success - data is the image binary
+          resolve(data);
+        } else if (res.statusCode === 503) {
+          // Model is loading
+          let waitTime = AI_PARAMS.MODEL_LOADING_RETRY_DELAY_MS / 1000;
+          try {
+            waitTime = JSON.parse(data.toString()).estimated_time || waitTime;
+          } catch {
+            // Ignore JSON parse error
+          }
+          reject(new ProviderError(
+            'huggingface',
+            `Model is loading. Please wait ${Math.ceil(waitTime)} seconds and try again.`,
+            503,
+            waitTime
+          ));
+        } else {
+          // Error
+          let errorMessage = `HuggingFace API error: ${res.statusCode}`;
+          try {
+            const response = JSON.parse(data.toString());
+            errorMessage = response.error || errorMessage;
+          } catch {
+            // Ignore JSON parse error
+          }
+          reject(new ProviderError('huggingface', errorMessage, res.statusCode));
+        }
+      });
+    });
+
+    req.on('error', (err) => reject(new ProviderError('huggingface', err.message)));
+    req.write(payload);
+    req.end();
+  });
+}
+
+/**
+ * HuggingFace image provider
+ */
+export const huggingFaceProvider: ImageProvider = {
+  name: 'huggingface',
+  models: HF_MODELS,
+  defaultModel: HF_CONFIG.DEFAULT_MODEL,
+  schedulers: HF_SCHEDULERS,
+  concurrency: HF_CONFIG.CONCURRENCY,
+  isConfigured: () => !!process.env.HUGGINGFACE_API_TOKEN,
+  generate: callHuggingFace,
+};
@@ -0,0 +1,176 @@
+import { CircuitStatus, ImageModel, ImageProviderName } from '../../types';
+import { ImageProvider } from './types';
+import { huggingFaceProvider } from './huggingface';
+import { replicateProvider } from './replicate';
+import { openAiProvider } from './openai';
+import { mockProvider } from './mock';
+import { getCircuitStatus } from './circuit-breaker';
+import { PROVIDER } from '../constants';
+
+/**
+ * Image provider registry
+ *
+ * The default provider comes from the IMAGE_PROVIDER env setting;
+ * requests may pick another one with their `provider` field. When a
+ * provider fails, the configured providers in IMAGE_PROVIDER_FALLBACKS
+ * are tried in order (see generateImages in ai-provider.ts).
+ *
+ * Each provider declares the models it serves; together they form the
+ * model registry. Requests may pick a model by id with their `model`
+ * field, which also selects its provider.
+ */
+
+export type { ImageProvider, ProviderRequest } from './types';
+export { ProviderError, ProviderConfigError } from './types';
+export { tryAcquire, recordOutcome, releaseCall } from './circuit-breaker';
+export { acquireSlot } from './concurrency';
+
+/**
+ * All available providers by name
+ */
+const PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  huggingface: huggingFaceProvider,
+  replicate: replicateProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Checks whether a value names a known provider
+ *
+ * @param value - Value to check
+ * @returns true if the value is a provider name
+ */
+export function isProviderName(value: unknown): value is ImageProviderName {
+  return typeof value === 'string' && (PROVIDER.NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Name of the provider used when a request names none
+ *
+ * @returns Provider from IMAGE_PROVIDER, or huggingface if unset or unknown
+ */
+export function getDefaultProviderName(): ImageProviderName {
+  if (isProviderName(PROVIDER.DEFAULT)) {
+    return PROVIDER.DEFAULT;
+  }
+  console.warn(`[Providers] Unknown IMAGE_PROVIDER "${PROVIDER.DEFAULT}", using huggingface`);
+  return 'huggingface';
+}
+
+/**
+ * Gets a provider by name
+ *
+ * @param name - Provider name, or undefined for the default provider
+ * @returns The provider
+ */
+export function getProvider(name?: ImageProviderName): ImageProvider {
+  return PROVIDERS[name || getDefaultProviderName()];
+}
+
+/**
+ * Lists all providers
+ *
+ * @returns Providers in registration order
+ */
+export function listProviders(): ImageProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+/**
+ * Lists the models of all providers
+ *
+ * @returns Models grouped by provider, in registration order
+ */
+export function listModels(): ImageModel[] {
+  return listProviders().flatMap((provider) => provider.models);
+}
+
+/**
+ * Finds a model by id
+ *
+ * @param id - Model id
+ * @returns The model, or undefined if no provider serves it
+ */
+export function findModel(id: string): ImageModel | undefined {
+  return listModels().find((model) => model.id === id);
+}
+
+/**
+ * Gets the model a provider uses when a request names none
+ *
+ * @param provider - Provider
+ * @returns The configured default model, or the provider's first model if it is unknown
+ */
+export function getDefaultModel(provider: ImageProvider): ImageModel {
+  const model = provider.models.find((entry) => entry.id === provider.defaultModel);
+  if (model) {
+    return model;
+  }
+  console.warn(`[Providers] Unknown default model "${provider.defaultModel}" for ${provider.name}, using ${provider.models[0].id}`);
+  return provider.models[0];
+}
+
+/**
+ * Resolves the model a request generates with
+ *
+ * @param modelId - Requested model id, if any
+ * @param providerName - Requested provider, if any
+ * @returns The requested model, or the (requested or default) provider's default model
+ */
+export function resolveModel(modelId?: string, providerName?: ImageProviderName): ImageModel {
+  const model = modelId !== undefined ? findModel(modelId) : undefined;
+  return model || getDefaultModel(getProvider(providerName));
+}
+
+/**
+ * Fallback providers from IMAGE_PROVIDER_FALLBACKS, in order
+ * Unknown names are ignored
+ */
+function getFallbackNames(): ImageProviderName[] {
+  return PROVIDER.FALLBACKS.split(',')
+    .map((name) => name.trim())
+    .filter(isProviderName);
+}
+
+/**
+ * Builds the ordered list of providers to try for a request
+ *
+ * @param primary - Requested provider, or undefined for the default provider
+ * @param fallback - Whether to append the configured fallback providers
+ * @returns The primary provider followed by configured, distinct fallbacks
+ */
+export function getProviderChain(primary?: ImageProviderName, fallback: boolean = true): ImageProvider[] {
+  const first = getProvider(primary);
+  if (!fallback) {
+    return [first];
+  }
+
+  const chain = [first];
+  for (const name of getFallbackNames()) {
+    const provider = PROVIDERS[name];
+    if (!chain.includes(provider) && provider.isConfigured()) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Health summary of every provider, for the health endpoint
+ *
+ * @returns Each provider's default model, configuration and circuit breaker status
+ */
+export function getProviderHealth(): {
+  name: ImageProviderName;
+  model: string;
+  configured: boolean;
+  circuit: CircuitStatus;
+}[] {
+  return listProviders().map((provider) => ({
+    name: provider.name,
+    model: getDefaultModel(provider).model,
+    configured: provider.isConfigured(),
+    circuit: getCircuitStatus(provider.name),
+  }));
+}
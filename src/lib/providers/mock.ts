@@ -0,0 +1,225 @@
+import sharp from 'sharp';
+import { setTimeout as sleep } from 'timers/promises';
+import { DetectedObject, ImageModel, Scheduler } from '../../types';
+import {
+  DEFAULT_PARAMETER_LIMITS,
+  DEFAULT_PARAMETERS,
+  ImageProvider,
+  ProviderError,
+  ProviderRequest,
+} from './types';
+import { AI_PARAMS, IMAGE_LIMITS } from '../constants';
+
+/**
+ * Offline mock provider
+ *
+ * Renders deterministic placeholder product images with sharp, so the
+ * queue → save → logo pipeline can run without any API token. The same
+ * prompt, seed and resolution always produce the same image. Each image
+ * shows a product-like blob whose position it reports for smart logo
+ * positioning, plus the prompt, seed, resolution and sampling parameters
+ * as text.
+ *
+ * Latency and failures can be simulated through env settings:
+ * - MOCK_LATENCY_MS: delay before each image (default 0)
+ * - MOCK_ERROR: "loading" for a 503 model-loading error, or an HTTP status code
+ * - MOCK_ERROR_RATE: share of images (by seed) that fail with MOCK_ERROR (default 1)
+ * - MOCK_CONCURRENCY: images rendered in parallel (default 4)
+ */
+
+/**
+ * Mock provider configuration
+ */
+const MOCK_CONFIG = {
+  LATENCY_MS: Number(process.env.MOCK_LATENCY_MS) || 0,
+  ERROR: process.env.MOCK_ERROR || '',
+  ERROR_RATE: process.env.MOCK_ERROR_RATE !== undefined ? Number(process.env.MOCK_ERROR_RATE) : 1,
+  CHAR_WIDTH_RATIO: 0.6, // Approximate glyph width relative to font size
+  CONCURRENCY: Number(process.env.MOCK_CONCURRENCY) || 4,
+} as const;
+
+/**
+ * Accepts every scheduler; they only change the rendered caption
+ */
+const MOCK_SCHEDULERS: Record<Scheduler, string> = {
+  ddim: 'ddim',
+  dpm_multistep: 'dpm_multistep',
+  euler: 'euler',
+  euler_ancestral: 'euler_ancestral',
+  heun: 'heun',
+  karras_dpm: 'karras_dpm',
+  pndm: 'pndm',
+};
+
+/**
+ * The placeholder model, honouring every parameter
+ */
+const MOCK_MODELS: ImageModel[] = [
+  {
+    id: 'mock',
+    name: 'Mock placeholder',
+    provider: 'mock',
+    model: 'mock/placeholder-v1',
+    capabilities: { negativePrompt: true, seed: true, guidanceScale: true, inferenceSteps: true },
+    supportedResolutions: IMAGE_LIMITS.SUPPORTED_RESOLUTIONS,
+    defaults: DEFAULT_PARAMETERS,
+    limits: DEFAULT_PARAMETER_LIMITS,
+    schedulers: Object.keys(MOCK_SCHEDULERS) as Scheduler[],
+    relativeCost: 0,
+  },
+];
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ *
+ * @param seed - 32-bit seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hashes a string to a 32-bit integer (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Escapes a value for use as SVG text
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Layout of the product blob drawn for a request
+ * Derived from prompt and seed only, so it can be recomputed without the image
+ */
+function getProductLayout(request: ProviderRequest): {
+  hue: number;
+  backgroundHue: number;
+  bbox: DetectedObject['bbox'];
+} {
+  const random = createRandom(hashString(request.prompt) ^ request.seed);
+  const width = 0.3 + random() * 0.2;
+  const height = 0.3 + random() * 0.25;
+
+  return {
+    hue: Math.floor(random() * 360),
+    backgroundHue: Math.floor(random() * 360),
+    bbox: {
+      x: 0.3 + random() * 0.4,
+      y: 0.4 + random() * 0.25,
+      width,
+      height,
+    },
+  };
+}
+
+/**
+ * Renders the placeholder image for a request
+ *
+ * @param request - Prompt, size and seed
+ * @returns PNG image data
+ */
+async function renderPlaceholder(request: ProviderRequest): Promise<Buffer> {
+  const { width, height, seed, guidanceScale, numInferenceSteps, scheduler } = request;
+  const { hue, backgroundHue, bbox } = getProductLayout(request);
+
+  const cx = bbox.x * width;
+  const cy = bbox.y * height;
+  const rx = (bbox.width * width) / 2;
+  const ry = (bbox.height * height) / 2;
+  const fontSize = Math.round(width / 32);
+  const maxChars = Math.floor((width - fontSize * 2) / (fontSize * MOCK_CONFIG.CHAR_WIDTH_RATIO)) - 8;
+  const prompt = request.prompt.length > maxChars
+    ? `${request.prompt.substring(0, maxChars - 1)}…`
+    : request.prompt;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="100%" height="100%" fill="hsl(${backgroundHue}, 30%, 92%)"/>
+  <ellipse cx="${cx}" cy="${cy + ry * 0.95}" rx="${rx * 0.9}" ry="${ry * 0.12}" fill="rgba(0,0,0,0.18)"/>
+  <rect x="${cx - rx}" y="${cy - ry}" width="${rx * 2}" height="${ry * 2}" rx="${Math.min(rx, ry) * 0.35}"
+    fill="hsl(${hue}, 55%, 50%)"/>
+  <g font-family="sans-serif" font-size="${fontSize}" fill="#333">
+    <text x="${fontSize}" y="${fontSize * 1.6}">MOCK · ${escapeXml(prompt)}</text>
+    <text x="${fontSize}" y="${fontSize * 3}">seed ${seed} · ${width}x${height}</text>
+    <text x="${fontSize}" y="${fontSize * 4.4}">cfg ${guidanceScale} · ${numInferenceSteps} steps${scheduler ? ` · ${scheduler}` : ''}</text>
+  </g>
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Throws the configured simulated error, if this image is selected to fail
+ *
+ * @param seed - Image seed; decides deterministically whether the image fails
+ * @throws {ProviderError} The simulated error
+ */
+function throwSimulatedError(seed: number): void {
+  if (!MOCK_CONFIG.ERROR || createRandom(seed)() >= MOCK_CONFIG.ERROR_RATE) {
+    return;
+  }
+
+  if (MOCK_CONFIG.ERROR === 'loading') {
+    const waitTime = AI_PARAMS.MODEL_LOADING_RETRY_DELAY_MS / 1000;
+    throw new ProviderError(
+      'mock',
+      `Model is loading. Please wait ${Math.ceil(waitTime)} seconds and try again.`,
+      503,
+      waitTime
+    );
+  }
+
+  const statusCode = Number(MOCK_CONFIG.ERROR) || 500;
+  throw new ProviderError('mock', `Simulated mock provider error: ${statusCode}`, statusCode);
+}
+
+/**
+ * Generates a placeholder image after the configured latency
+ *
+ * @param request - Prompt, size and seed
+ * @param signal - Aborts the simulated latency
+ * @returns PNG image data
+ * @throws {ProviderError} If a failure is being simulated
+ */
+async function callMock(request: ProviderRequest, signal?: AbortSignal): Promise<Buffer> {
+  if (MOCK_CONFIG.LATENCY_MS > 0) {
+    await sleep(MOCK_CONFIG.LATENCY_MS, undefined, { signal });
+  }
+  throwSimulatedError(request.seed);
+  return renderPlaceholder(request);
+}
+
+/**
+ * Mock image provider
+ */
+export const mockProvider: ImageProvider = {
+  name: 'mock',
+  models: MOCK_MODELS,
+  defaultModel: 'mock',
+  schedulers: MOCK_SCHEDULERS,
+  concurrency: MOCK_CONFIG.CONCURRENCY,
+  isConfigured: () => true,
+  generate: callMock,
+  locateProduct: (request) => ({
+    label: 'product',
+    confidence: 1,
+    bbox: getProductLayout(request).bbox,
+  }),
+};
@@ -0,0 +1,194 @@
+import { ImageModel } from '../../types';
+import {
+  DEFAULT_PARAMETER_LIMITS,
+  DEFAULT_PARAMETERS,
+  ImageProvider,
+  ProviderConfigError,
+  ProviderError,
+  ProviderRequest,
+} from './types';
+import { IMAGE_LIMITS } from '../constants';
+
+/**
+ * OpenAI-compatible images provider
+ *
+ * Calls POST {base URL}/images/generations, so it works with OpenAI and
+ * any service exposing the same API. The API has no negative prompt,
+ * seed, guidance, step or scheduler parameters; those are not sent.
+ * Models only produce a few fixed sizes, so the closest one is requested
+ * and cropped.
+ */
+
+/**
+ * OpenAI-compatible API configuration
+ */
+const OPENAI_CONFIG = {
+  BASE_URL: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+  DEFAULT_MODEL: process.env.OPENAI_IMAGE_MODEL || 'dall-e-3',
+  // Sizes each model generates natively; other models are assumed to support 1024x1024 only
+  MODEL_SIZES: {
+    'dall-e-2': ['256x256', '512x512', '1024x1024'],
+    'dall-e-3': ['1024x1024', '1792x1024', '1024x1792'],
+    'gpt-image-1': ['1024x1024', '1536x1024', '1024x1536'],
+  } as Record<string, readonly string[]>,
+  DEFAULT_SIZES: ['1024x1024'] as const,
+  // Cost per image relative to SDXL base; unknown models count as dall-e-3
+  MODEL_COSTS: {
+    'dall-e-2': 2,
+    'dall-e-3': 4,
+    'gpt-image-1': 4,
+  } as Record<string, number>,
+  // Models that take response_format; gpt-image-1 rejects it and always returns base64
+  RESPONSE_FORMAT_MODELS: ['dall-e-2', 'dall-e-3'] as readonly string[],
+  CONCURRENCY: Number(process.env.OPENAI_CONCURRENCY) || 1,
+} as const;
+
+/**
+ * Picks the native size to request for the wanted dimensions
+ * The image is cropped to the exact dimensions afterwards (see ai-provider.ts),
+ * so the closest aspect ratio among sizes at least as large is chosen
+ *
+ * @param model - Model identifier on the API
+ * @param width - Wanted width in pixels
+ * @param height - Wanted height in pixels
+ * @returns Native size, or undefined if none is large enough
+ */
+function pickNativeSize(model: string, width: number, height: number): string | undefined {
+  const ratio = Math.log(width / height);
+  const candidates = (OPENAI_CONFIG.MODEL_SIZES[model] || OPENAI_CONFIG.DEFAULT_SIZES)
+    .map((size) => size.split('x').map(Number) as [number, number])
+    .filter(([w, h]) => w >= width && h >= height)
+    .sort((a, b) =>
+      Math.abs(Math.log(a[0] / a[1]) - ratio) - Math.abs(Math.log(b[0] / b[1]) - ratio) ||
+      a[0] * a[1] - b[0] * b[1]
+    );
+  return candidates.length > 0 ? `${candidates[0][0]}x${candidates[0][1]}` : undefined;
+}
+
+/**
+ * Describes a model served through the images API
+ * Only sizes that can be cropped from a native size are supported
+ *
+ * @param model - Model identifier on the API, also used as its id
+ * @param name - Display name
+ * @returns Model entry
+ */
+function describeModel(model: string, name: string): ImageModel {
+  return {
+    id: model,
+    name,
+    provider: 'openai',
+    model,
+    capabilities: { negativePrompt: false, seed: false, guidanceScale: false, inferenceSteps: false },
+    supportedResolutions: IMAGE_LIMITS.SUPPORTED_RESOLUTIONS.filter((resolution) => {
+      const [width, height] = resolution.split('x').map(Number);
+      return pickNativeSize(model, width, height) !== undefined;
+    }),
+    defaults: DEFAULT_PARAMETERS,
+    limits: DEFAULT_PARAMETER_LIMITS,
+    schedulers: [],
+    relativeCost: OPENAI_CONFIG.MODEL_COSTS[model] ?? OPENAI_CONFIG.MODEL_COSTS['dall-e-3'],
+  };
+}
+
+/**
+ * Models served through the images API, plus the configured default model
+ * if it is not one of them (e.g. on an OpenAI-compatible service)
+ */
+const OPENAI_MODELS: ImageModel[] = [
+  describeModel('dall-e-2', 'DALL·E 2'),
+  describeModel('dall-e-3', 'DALL·E 3'),
+  describeModel('gpt-image-1', 'GPT Image 1'),
+];
+if (!OPENAI_MODELS.some((model) => model.id === OPENAI_CONFIG.DEFAULT_MODEL)) {
+  OPENAI_MODELS.push(describeModel(OPENAI_CONFIG.DEFAULT_MODEL, OPENAI_CONFIG.DEFAULT_MODEL));
+}
+
+/**
+ * Response body of the images API
+ */
+interface ImagesResponse {
+  data?: { b64_json?: string; url?: string }[];
+  error?: { message?: string };
+}
+
+/**
+ * Generates a single image through the images API
+ *
+ * @param request - Prompt and size
+ * @param signal - Aborts the HTTP requests
+ * @returns Encoded image data
+ * @throws {ProviderError} If the API call fails
+ */
+async function callOpenAi(request: ProviderRequest, signal?: AbortSignal): Promise<Buffer> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new ProviderConfigError('openai', 'OPENAI_API_KEY environment variable is not set');
+  }
+
+  const size = pickNativeSize(request.model, request.width, request.height);
+  if (!size) {
+    throw new ProviderError('openai', `Model ${request.model} cannot produce ${request.width}x${request.height}`, 400);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${OPENAI_CONFIG.BASE_URL}/images/generations`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        prompt: request.prompt,
+        n: 1,
+        size,
+        ...(OPENAI_CONFIG.RESPONSE_FORMAT_MODELS.includes(request.model) ? { response_format: 'b64_json' } : {}),
+      }),
+      signal,
+    });
+  } catch (error) {
+    throw new ProviderError('openai', error instanceof Error ? error.message : 'Request failed');
+  }
+
+  let body: ImagesResponse = {};
+  try {
+    body = (await response.json()) as ImagesResponse;
+  } catch {
+    // Ignore JSON parse error
+  }
+
+  if (!response.ok) {
+    const message = body.error?.message || `Images API error: ${response.status}`;
+    const retryAfter = Number(response.headers.get('retry-after')) || undefined;
+    throw new ProviderError('openai', message, response.status, retryAfter);
+  }
+
+  const image = body.data?.[0];
+  if (image?.b64_json) {
+    return Buffer.from(image.b64_json, 'base64');
+  }
+  if (image?.url) {
+    const download = await fetch(image.url, { signal });
+    if (!download.ok) {
+      throw new ProviderError('openai', `Failed to download output image: ${download.status}`, download.status);
+    }
+    return Buffer.from(await download.arrayBuffer());
+  }
+
+  throw new ProviderError('openai', 'Images API returned no image');
+}
+
+/**
+ * OpenAI-compatible image provider
+ */
+export const openAiProvider: ImageProvider = {
+  name: 'openai',
+  models: OPENAI_MODELS,
+  defaultModel: OPENAI_CONFIG.DEFAULT_MODEL,
+  schedulers: {},
+  concurrency: OPENAI_CONFIG.CONCURRENCY,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  generate: callOpenAi,
+};
@@ -0,0 +1,160 @@
+import Replicate from 'replicate';
+import { ImageModel, Scheduler } from '../../types';
+import {
+  DEFAULT_PARAMETER_LIMITS,
+  DEFAULT_PARAMETERS,
+  ImageProvider,
+  ProviderConfigError,
+  ProviderError,
+  ProviderRequest,
+} from './types';
+import { IMAGE_LIMITS } from '../constants';
+
+/**
+ * Replicate provider
+ * Runs an SDXL-compatible model through the Replicate client
+ */
+
+/**
+ * Replicate configuration
+ * The model must accept prompt, negative_prompt, width, height, seed,
+ * guidance_scale, num_inference_steps and scheduler inputs
+ */
+const REPLICATE_CONFIG = {
+  MODEL: (process.env.REPLICATE_IMAGE_MODEL ||
+    'stability-ai/sdxl:7762fd07cf82c948538e41f63f77d685e02b063e37e496e96eefd46c929f9bdc') as `${string}/${string}`,
+  CONCURRENCY: Number(process.env.REPLICATE_CONCURRENCY) || 1,
+} as const;
+
+/**
+ * Scheduler names of the SDXL model's scheduler input
+ */
+const REPLICATE_SCHEDULERS: Partial<Record<Scheduler, string>> = {
+  ddim: 'DDIM',
+  dpm_multistep: 'DPMSolverMultistep',
+  euler: 'K_EULER',
+  euler_ancestral: 'K_EULER_ANCESTRAL',
+  heun: 'HeunDiscrete',
+  karras_dpm: 'KarrasDPM',
+  pndm: 'PNDM',
+};
+
+/**
+ * Models run on Replicate
+ */
+const REPLICATE_MODELS: ImageModel[] = [
+  {
+    id: 'replicate-sdxl',
+    name: 'Stable Diffusion XL 1.0 (Replicate)',
+    provider: 'replicate',
+    model: REPLICATE_CONFIG.MODEL,
+    capabilities: { negativePrompt: true, seed: true, guidanceScale: true, inferenceSteps: true },
+    supportedResolutions: IMAGE_LIMITS.SUPPORTED_RESOLUTIONS,
+    defaults: DEFAULT_PARAMETERS,
+    limits: DEFAULT_PARAMETER_LIMITS,
+    schedulers: Object.keys(REPLICATE_SCHEDULERS) as Scheduler[],
+    relativeCost: 1,
+  },
+];
+
+let replicateClient: Replicate | null = null;
+
+/**
+ * Initialize Replicate client (lazy initialization)
+ *
+ * @throws {ProviderConfigError} If REPLICATE_API_TOKEN is not set
+ */
+function getReplicateClient(): Replicate {
+  const token = process.env.REPLICATE_API_TOKEN;
+  if (!token) {
+    throw new ProviderConfigError('replicate', 'REPLICATE_API_TOKEN environment variable is not set');
+  }
+
+  if (!replicateClient) {
+    replicateClient = new Replicate({ auth: token });
+  }
+
+  return replicateClient;
+}
+
+/**
+ * Reads the first image of a prediction output
+ * Outputs are file objects (client default) or URLs, usually in an array
+ *
+ * @param output - Prediction output
+ * @param signal - Aborts the download
+ * @returns Encoded image data
+ * @throws {ProviderError} If the output holds no image
+ */
+async function readOutputImage(output: unknown, signal?: AbortSignal): Promise<Buffer> {
+  const first = Array.isArray(output) ? output[0] : output;
+
+  if (first && typeof first === 'object' && 'blob' in first) {
+    const blob = await (first as { blob(): Promise<Blob> }).blob();
+    return Buffer.from(await blob.arrayBuffer());
+  }
+
+  if (typeof first === 'string') {
+    const response = await fetch(first, { signal });
+    if (!response.ok) {
+      throw new ProviderError('replicate', `Failed to download output image: ${response.status}`, response.status);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  throw new ProviderError('replicate', 'Replicate prediction returned no image');
+}
+
+/**
+ * Generates a single image on Replicate
+ *
+ * @param request - Prompt, size and sampling parameters
+ * @param signal - Cancels the prediction on Replicate
+ * @returns Encoded image data
+ * @throws {ProviderError} If the prediction fails or is cancelled
+ */
+async function callReplicate(request: ProviderRequest, signal?: AbortSignal): Promise<Buffer> {
+  const client = getReplicateClient();
+
+  let output: unknown;
+  try {
+    output = await client.run(request.model as `${string}/${string}`, {
+      input: {
+        prompt: request.prompt,
+        negative_prompt: request.negativePrompt,
+        width: request.width,
+        height: request.height,
+        seed: request.seed,
+        guidance_scale: request.guidanceScale,
+        num_inference_steps: request.numInferenceSteps,
+        scheduler: request.scheduler && REPLICATE_SCHEDULERS[request.scheduler],
+        num_outputs: 1,
+      },
+      signal,
+    });
+  } catch (error) {
+    const status = (error as { response?: { status?: number } }).response?.status;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ProviderError('replicate', `Replicate API error: ${message}`, status);
+  }
+
+  // The client cancels the prediction and returns normally when aborted
+  if (signal?.aborted) {
+    throw new ProviderError('replicate', 'Prediction cancelled');
+  }
+
+  return readOutputImage(output, signal);
+}
+
+/**
+ * Replicate image provider
+ */
+export const replicateProvider: ImageProvider = {
+  name: 'replicate',
+  models: REPLICATE_MODELS,
+  defaultModel: 'replicate-sdxl',
+  schedulers: REPLICATE_SCHEDULERS,
+  concurrency: REPLICATE_CONFIG.CONCURRENCY,
+  isConfigured: () => !!process.env.REPLICATE_API_TOKEN,
+  generate: callReplicate,
+};
@@ -0,0 +1,119 @@
+import { DetectedObject, ImageModel, ImageProviderName, Scheduler } from '../../types';
+import { AI_PARAMS } from '../constants';
+
+/**
+ * Image provider contract
+ *
+ * Every image generation backend implements ImageProvider. The worker only
+ * talks to providers through generateImages (see ai-provider.ts), so a
+ * backend can be added or switched without touching the pipeline.
+ */
+
+/**
+ * Parameters for generating a single image
+ */
+export interface ProviderRequest {
+  /** Model identifier on the backend (ImageModel.model) */
+  model: string;
+  /** The positive prompt describing what to generate */
+  prompt: string;
+  /** The negative prompt describing what to avoid */
+  negativePrompt: string;
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Seed for reproducible output */
+  seed: number;
+  /** Classifier-free guidance scale */
+  guidanceScale: number;
+  /** Number of denoising steps */
+  numInferenceSteps: number;
+  /** Sampling scheduler, undefined for the model's default */
+  scheduler?: Scheduler;
+}
+
+/**
+ * An image generation backend
+ */
+export interface ImageProvider {
+  /** Identifier used in configuration and requests */
+  readonly name: ImageProviderName;
+  /** Models the backend serves, in display order */
+  readonly models: readonly ImageModel[];
+  /** Id of the model used when a request names none */
+  readonly defaultModel: string;
+  /** Schedulers the backend can configure, mapped to its own names */
+  readonly schedulers: Partial<Record<Scheduler, string>>;
+  /** Maximum calls in flight at once (per worker process) */
+  readonly concurrency: number;
+  /**
+   * Whether the credentials the backend needs are configured
+   */
+  isConfigured(): boolean;
+  /**
+   * Generates a single image
+   * Aborting the signal must stop the backend call (and any remote work it started)
+   *
+   * @param request - Prompt, size and sampling parameters
+   * @param signal - Aborted on cancellation or timeout
+   * @returns Encoded image data
+   * @throws {ProviderError} If the backend call fails
+   */
+  generate(request: ProviderRequest, signal?: AbortSignal): Promise<Buffer>;
+  /**
+   * Reports where the product is in an image this provider generated
+   * Only providers that know their own layout (the mock) implement this;
+   * for the others smart logo positioning runs object detection
+   *
+   * @param request - Request the image was generated from
+   * @returns The product, or null if there is none
+   */
+  locateProduct?(request: ProviderRequest): DetectedObject | null;
+}
+
+/**
+ * Guidance scale and steps used by the diffusion models unless they need others
+ */
+export const DEFAULT_PARAMETERS: ImageModel['defaults'] = {
+  guidanceScale: AI_PARAMS.GUIDANCE_SCALE,
+  inferenceSteps: AI_PARAMS.INFERENCE_STEPS,
+};
+
+/**
+ * Guidance scale and step bounds shared by the diffusion models
+ */
+export const DEFAULT_PARAMETER_LIMITS: ImageModel['limits'] = {
+  guidanceScale: { min: AI_PARAMS.GUIDANCE_SCALE_MIN, max: AI_PARAMS.GUIDANCE_SCALE_MAX },
+  inferenceSteps: { min: AI_PARAMS.INFERENCE_STEPS_MIN, max: AI_PARAMS.INFERENCE_STEPS_MAX },
+};
+
+/**
+ * Error raised by an image provider
+ */
+export class ProviderError extends Error {
+  provider: ImageProviderName;
+  /** HTTP status of the failed call, undefined for network errors */
+  statusCode?: number;
+  /** Seconds the provider asked to wait before retrying (model loading, rate limiting) */
+  estimatedTime?: number;
+
+  constructor(provider: ImageProviderName, message: string, statusCode?: number, estimatedTime?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.statusCode = statusCode;
+    this.estimatedTime = estimatedTime;
+  }
+}
+
+/**
+ * Error raised when a provider is missing required configuration
+ * Never retried: the same call would fail again
+ */
+export class ProviderConfigError extends ProviderError {
+  constructor(provider: ImageProviderName, message: string) {
+    super(provider, message);
+    this.name = 'ProviderConfigError';
+  }
+}
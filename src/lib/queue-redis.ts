@@ -1,38 +1,16 @@
 import { Queue, Worker, QueueEvents, Job } from 'bullmq';
-import IORedis from 'ioredis';
-import { GenerateRequest, GeneratedImage } from '../types';
-import { generateImages, parseResolution } from './ai-provider';
-import { saveImagesLocally, getImagePath, getLogoPath } from './image-storage';
-import { optimizePrompt } from './prompt-optimizer';
-import { applyLogo } from './logo-overlay';
-import { detectProductInImage, isObjectDetectionAvailable } from './object-detection';
-import { QUEUE, IMAGE_LIMITS } from './constants';
-import fs from 'fs';
+import { GenerationJobState, GenerationStatus, WebhookEvent } from '../types';
+import { processGenerationJob, JobData, WorkerResult, JOB_CANCELLED_REASON, JOB_TIMED_OUT_REASON } from './pipeline';
+import { enqueueWebhook } from './webhooks';
+import { recordBatchResult } from './batches';
+import { buildGenerationRecord, saveGenerationRecord } from './history';
+import { connection } from './redis';
+import { QUEUE } from './constants';
 
 /**
- * Redis connection configuration
- * Uses environment variable or defaults to localhost
+ * Outcome of a cancellation request
  */
-const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-const connection = new IORedis(redisUrl, {
-  maxRetriesPerRequest: null,
-  tls: redisUrl.startsWith('rediss://') ? {} : undefined,
-});
-
-/**
- * Job data structure extending the base request with tracking ID
- */
-interface JobData extends GenerateRequest {
-  requestId: string;
-}
-
-/**
- * Worker result structure containing images and prompt
- */
-interface WorkerResult {
-  images: GeneratedImage[];
-  prompt: string;
-}
+export type CancelJobResult = 'not_found' | 'removed' | 'cancelled' | 'already_finished' | 'not_owned';
 
 /**
  * The Queue (Producer)
@@ -42,142 +20,22 @@ export const imageQueue = new Queue(QUEUE.NAME, { connection });
 
 /**
  * Queue Events handler
- * Used for waiting for job completion
+ * Used for waiting for job completion and streaming job progress
  */
 export const queueEvents = new QueueEvents(QUEUE.NAME, { connection });
 
+// Every synchronous request and open event stream adds a listener
+queueEvents.setMaxListeners(0);
+
 /**
  * The Worker (Consumer)
- * Processes image generation jobs from the queue
+ * Processes image generation jobs from the queue (see pipeline.ts)
  * 
- * Job processing flow:
- * 1. Extract and validate job parameters
- * 2. Optimize the prompt for AI generation
- * 3. Generate images using AI provider
- * 4. Save images to local storage
- * 5. Detect products for smart logo positioning (if enabled)
- * 6. Apply logo overlay if provided
- * 7. Return saved image metadata and prompt
+ * The processor takes the abort signal so jobs can be cancelled via the API.
  */
 export const worker = new Worker<JobData, WorkerResult>(
   QUEUE.NAME,
-  async (job: Job<JobData>) => {
-    const jobId = job.id || 'unknown';
-    const descPreview = job.data.description.substring(0, 50);
-    
-    console.log(`[Worker] Starting job ${jobId}: "${descPreview}..."`);
-
-    const { description, category, style, angle, color, settings, logo } = job.data;
-    
-    // Apply defaults for optional parameters
-    const safeCategory = category || 'other';
-    const safeStyle = style || 'studio';
-    const safeAngle = angle || 'front';
-    const numImages = settings?.numImages || IMAGE_LIMITS.DEFAULT_IMAGES;
-    const resolution = settings?.resolution || IMAGE_LIMITS.DEFAULT_RESOLUTION;
-
-    console.log(`[Worker] Job ${jobId} settings: ${numImages} images at ${resolution} [${safeCategory}/${safeStyle}/${safeAngle}]`);
-    if (logo && logo.type !== 'none') {
-      console.log(`[Worker] Job ${jobId} logo: ${logo.type} at ${logo.position}${logo.smartPositioning ? ' (smart positioning)' : ''}`);
-    }
-
-    // Step 1: Optimize the prompt
-    console.log(`[Worker] Job ${jobId}: Optimizing prompt...`);
-    const { prompt, negativePrompt } = optimizePrompt(
-      description, 
-      safeCategory, 
-      safeStyle, 
-      safeAngle, 
-      color
-    );
-
-    // Step 2: Parse resolution
-    const { width, height } = parseResolution(resolution);
-
-    // Step 3: Generate images using AI
-    console.log(`[Worker] Job ${jobId}: Generating ${numImages} images...`);
-    const imageBuffers = await generateImages({
-      prompt,
-      negativePrompt,
-      numImages,
-      width,
-      height,
-    });
-
-    // Step 4: Save images locally
-    console.log(`[Worker] Job ${jobId}: Saving ${imageBuffers.length} images...`);
-    let savedImages = await saveImagesLocally(imageBuffers);
-
-    // Step 5: Detect products for smart logo positioning (if enabled)
-    if (logo && logo.type !== 'none' && logo.smartPositioning) {
-      if (isObjectDetectionAvailable()) {
-        console.log(`[Worker] Job ${jobId}: Running object detection for smart positioning...`);
-        // Use the first image for detection (all images should be similar)
-        const firstImagePath = getImagePath(savedImages[0].filename);
-        const firstImageBuffer = fs.readFileSync(firstImagePath);
-        
-        const detectedObject = await detectProductInImage(firstImageBuffer);
-        
-        if (detectedObject) {
-          // Cache detection data in logo settings for all images
-          logo.detectionData = detectedObject;
-          console.log(`[Worker] Job ${jobId}: Product detected, will use smart positioning`);
-        } else {
-          console.warn(`[Worker] Job ${jobId}: No product detected, falling back to regular positioning`);
-        }
-      } else {
-        console.warn(`[Worker] Job ${jobId}: Smart positioning requested but REPLICATE_API_TOKEN not configured`);
-      }
-    }
-
-    // Step 6: Apply logo overlay if provided
-    if (logo && logo.type !== 'none') {
-      console.log(`[Worker] Job ${jobId}: Applying ${logo.type} logo...`);
-      
-      const finalImages: GeneratedImage[] = [];
-      
-      for (let i = 0; i < savedImages.length; i++) {
-        const savedImage = savedImages[i];
-        const imagePath = getImagePath(savedImage.filename);
-        const imageBuffer = fs.readFileSync(imagePath);
-        
-        try {
-          // Get logo path for image logos
-          let logoPath: string | undefined;
-          if (logo.type === 'image' && logo.content) {
-            // Extract filename from URL or use as-is if it's already a filename
-            const logoFilename = logo.content.startsWith('/') 
-              ? logo.content.split('/').pop() || ''
-              : logo.content;
-            logoPath = getLogoPath(logoFilename);
-          }
-          
-          // Apply logo
-          const finalBuffer = await applyLogo(imageBuffer, logo, logoPath);
-          
-          // Save final composited image
-          fs.writeFileSync(imagePath, finalBuffer);
-          finalImages.push(savedImage);
-          
-          console.log(`[Worker] Job ${jobId}: Logo applied to image ${i + 1}/${savedImages.length}`);
-        } catch (error) {
-          console.error(`[Worker] Job ${jobId}: Failed to apply logo to image ${i + 1}:`, error);
-          // Keep original image if logo application fails
-          finalImages.push(savedImage);
-        }
-      }
-      
-      savedImages = finalImages;
-    }
-
-    console.log(`[Worker] Job ${jobId} completed: ${savedImages.length} images saved`);
-
-    // Return both images and prompt for frontend display
-    return {
-      images: savedImages,
-      prompt,
-    };
-  },
+  async (job: Job<JobData>, token?: string, signal?: AbortSignal) => processGenerationJob(job, signal),
   { 
     connection,
     concurrency: QUEUE.CONCURRENCY,
@@ -188,18 +46,175 @@ export const worker = new Worker<JobData, WorkerResult>(
   }
 );
 
+/**
+ * Final status of a job, from its webhook event
+ */
+const EVENT_STATUS: Record<WebhookEvent, GenerationStatus> = {
+  'job.completed': 'completed',
+  'job.failed': 'failed',
+  'job.cancelled': 'cancelled',
+  'job.timed_out': 'timed_out',
+};
+
+/**
+ * Maps the failure reason of a job to its final status
+ * Cancelled and timed out jobs are stored as failed with a dedicated reason
+ *
+ * @param reason - Failure reason
+ * @returns 'cancelled', 'timed_out' or 'failed'
+ */
+function toFailedStatus(reason: string | undefined): GenerationStatus {
+  switch (reason) {
+    case JOB_CANCELLED_REASON:
+      return 'cancelled';
+    case JOB_TIMED_OUT_REASON:
+      return 'timed_out';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Runs follow-up work for a finished job: history record, webhook callback
+ * and batch bookkeeping
+ * Failures are logged and never affect the job itself
+ * 
+ * @param job - Finished job
+ * @param event - Webhook event type
+ * @param result - Worker result (completed jobs only)
+ * @param error - Failure reason (failed/cancelled/timed out jobs only)
+ * @returns Resolves once the history record is stored (or failed to store)
+ */
+function onJobFinished(
+  job: Job<JobData>,
+  event: WebhookEvent,
+  result?: WorkerResult,
+  error?: string
+): Promise<void> {
+  const { callbackUrl, requestId, batch } = job.data;
+  const jobId = job.id as string;
+  const images = result?.images || [];
+  const prompt = result?.prompt || '';
+  const status = EVENT_STATUS[event];
+
+  const recorded = saveGenerationRecord(buildGenerationRecord(job, status, result, error)).catch((err) => {
+    console.error(`[Worker] Failed to save history record for job ${jobId}:`, err);
+  });
+
+  if (callbackUrl) {
+    enqueueWebhook(callbackUrl, {
+      event,
+      jobId,
+      requestId,
+      images,
+      prompt,
+      error,
+      timestamp: new Date().toISOString(),
+    }).catch((err) => {
+      console.error(`[Worker] Failed to queue webhook for job ${jobId}:`, err);
+    });
+  }
+
+  if (batch) {
+    recordBatchResult(batch, {
+      row: batch.row,
+      sku: batch.sku,
+      jobId,
+      state: status,
+      images,
+      prompt,
+      error,
+    }).catch((err) => {
+      console.error(`[Worker] Failed to record batch result for job ${jobId}:`, err);
+    });
+  }
+
+  return recorded;
+}
+
 // Worker event handlers
-worker.on('completed', (job: any) => {
+worker.on('completed', (job: Job<JobData, WorkerResult>, result: WorkerResult) => {
   console.log(`[Worker] ✓ Job ${job.id} completed successfully`);
+  onJobFinished(job, 'job.completed', result);
 });
 
-worker.on('failed', (job: any, err: any) => {
+worker.on('failed', (job: Job<JobData> | undefined, err: Error) => {
   console.error(`[Worker] ✗ Job ${job?.id} failed:`, err.message);
+  if (job) {
+    const status = toFailedStatus(err.message);
+    const event = status === 'cancelled' ? 'job.cancelled' : status === 'timed_out' ? 'job.timed_out' : 'job.failed';
+    onJobFinished(job, event, undefined, err.message);
+  }
 });
 
 worker.on('error', (err: any) => {
   console.error(`[Worker] Worker error:`, err);
 });
 
+/**
+ * Maps a BullMQ job state to the public job state
+ * Cancelled and timed out jobs are stored as failed with a dedicated reason
+ *
+ * @param job - Queue job
+ * @param state - Raw BullMQ state
+ * @returns Public job state
+ */
+export function toJobState(job: Job<JobData>, state: string): GenerationJobState {
+  switch (state) {
+    case 'waiting':
+    case 'prioritized':
+    case 'waiting-children':
+      return 'waiting';
+    case 'delayed':
+    case 'active':
+    case 'completed':
+      return state;
+    case 'failed':
+      return toFailedStatus(job.failedReason);
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Cancels a generation job
+ *
+ * Jobs that have not started yet are removed from the queue after their
+ * cancellation is recorded in generation history, which the status
+ * endpoint reports from then on. Active jobs are signalled through the
+ * worker, which aborts the work in flight.
+ *
+ * @param jobId - Job identifier
+ * @returns Outcome of the cancellation attempt
+ */
+export async function cancelGenerationJob(jobId: string): Promise<CancelJobResult> {
+  const job = await imageQueue.getJob(jobId);
+  if (!job) {
+    return 'not_found';
+  }
+
+  const state = await job.getState();
+
+  if (state === 'completed' || state === 'failed') {
+    return 'already_finished';
+  }
+
+  if (state === 'active') {
+    // Only the worker holding the job can signal its processor
+    if (!worker.cancelJob(jobId, JOB_CANCELLED_REASON)) {
+      console.warn(`[Queue] Job ${jobId} is active on another worker, cannot cancel`);
+      return 'not_owned';
+    }
+    console.log(`[Queue] Cancellation requested for active job ${jobId}`);
+    return 'cancelled';
+  }
+
+  // Record the cancellation first: the history record is what GET /api/jobs/:id reports once the job is gone
+  await onJobFinished(job, 'job.cancelled', undefined, JOB_CANCELLED_REASON);
+  await job.remove();
+  console.log(`[Queue] Removed pending job ${jobId}`);
+  return 'removed';
+}
+
 console.log(`[Worker] Ready and listening for jobs on queue: "${QUEUE.NAME}"`);
 
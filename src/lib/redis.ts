@@ -0,0 +1,14 @@
+import IORedis from 'ioredis';
+
+/**
+ * Redis connection configuration
+ * Uses environment variable or defaults to localhost
+ * 
+ * Shared by all queues, workers and Redis-backed stores
+ */
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+export const connection = new IORedis(redisUrl, {
+  maxRetriesPerRequest: null,
+  tls: redisUrl.startsWith('rediss://') ? {} : undefined,
+});
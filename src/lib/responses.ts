@@ -0,0 +1,56 @@
+import { GenerateResponse, GeneratedImage, ImageModel, VariantGroup } from '../types';
+import { ResolvedSettings } from './pipeline';
+import { IMAGE_LIMITS } from './constants';
+
+/**
+ * Creates an error response with consistent structure
+ *
+ * @param error - Error message
+ * @param processingTime - Time taken before error occurred
+ * @returns Formatted error response
+ */
+export function createErrorResponse(error: string, processingTime: number = 0): GenerateResponse {
+  return {
+    success: false,
+    images: [],
+    metadata: {
+      prompt: '',
+      settings: {
+        numImages: IMAGE_LIMITS.DEFAULT_IMAGES,
+        resolution: IMAGE_LIMITS.DEFAULT_RESOLUTION,
+      },
+    },
+    error,
+  };
+}
+
+/**
+ * Creates a success response with consistent structure
+ *
+ * Records the settings the images were generated with, defaults included
+ *
+ * @param images - Generated images array
+ * @param prompt - The optimized prompt used
+ * @param model - Model requested for the job
+ * @param settings - Settings the job ran with (see resolveJobSettings)
+ * @param variants - Images grouped by variant (variant matrix requests only)
+ * @returns Formatted success response
+ */
+export function createSuccessResponse(
+  images: GeneratedImage[],
+  prompt: string,
+  model: ImageModel,
+  settings: ResolvedSettings,
+  variants?: VariantGroup[]
+): GenerateResponse {
+  return {
+    success: true,
+    images,
+    variants,
+    metadata: {
+      prompt,
+      model: model.id,
+      settings,
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ImageProviderName, ResultCacheStats, Scheduler } from '../types';
+import { ProviderImage } from './ai-provider';
+import { fingerprintRequest } from './idempotency';
+import { connection } from './redis';
+import { RESULT_CACHE } from './constants';
+
+/**
+ * Content-addressed cache of generated images
+ *
+ * Identical generation requests (same prompt, negative prompt, provider,
+ * model, size, sampling parameters and seed) reuse the images produced the
+ * first time instead of calling the provider again. Only requests that pin
+ * a seed are cached; without one every request must get new random seeds. Images are cached as
+ * the provider returned them, before logos are applied, so logo settings
+ * do not affect hits.
+ *
+ * - `result-cache:{hash}` in Redis holds the entry and expires after the TTL
+ * - `cache/results/{hash}.img` holds the image data; files of expired
+ *   entries are pruned periodically. The files stay on each instance's
+ *   local disk rather than in shared storage, so another instance simply
+ *   misses and generates again
+ * - `result-cache:stats` counts hits and misses
+ */
+
+/**
+ * Parameters identifying a generation, hashed into the cache key
+ */
+export interface CacheKeyParams {
+  prompt: string;
+  negativePrompt: string;
+  provider: ImageProviderName;
+  model: string;
+  modelId: string;
+  width: number;
+  height: number;
+  guidanceScale: number;
+  numInferenceSteps: number;
+  scheduler?: Scheduler;
+  /** Requested base seed */
+  seed: number;
+}
+
+/**
+ * Stored cache entry; the image data lives in the cache directory
+ */
+interface CacheEntry {
+  seed?: number;
+  provider: ImageProviderName;
+  model: string;
+  modelId: string;
+  createdAt: string;
+}
+
+/**
+ * Full path to the cache directory
+ */
+const CACHE_DIR = path.join(process.cwd(), RESULT_CACHE.DIR);
+
+let lastPrunedAt = 0;
+
+/**
+ * Path of the cached image data for a key
+ */
+function getCacheFilePath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.img`);
+}
+
+/**
+ * Builds the cache keys of a request's images
+ * Image i of a request is cached separately, so a request for fewer
+ * images can reuse the first images of a larger identical one
+ *
+ * @param params - Generation parameters
+ * @param numImages - Number of images requested
+ * @returns One key per image
+ */
+export function buildCacheKeys(params: CacheKeyParams, numImages: number): string[] {
+  return Array.from({ length: numImages }, (_, index) =>
+    fingerprintRequest({ ...params, scheduler: params.scheduler ?? null, index })
+  );
+}
+
+/**
+ * Lists the files in the cache directory
+ */
+async function listCacheFiles(): Promise<string[]> {
+  try {
+    return await fs.readdir(CACHE_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Removes cached files older than the TTL, at most once per PRUNE_INTERVAL_MS
+ */
+async function pruneExpiredFiles(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPrunedAt < RESULT_CACHE.PRUNE_INTERVAL_MS) {
+    return;
+  }
+  lastPrunedAt = now;
+
+  let removed = 0;
+  for (const file of await listCacheFiles()) {
+    const filePath = path.join(CACHE_DIR, file);
+    try {
+      if (now - (await fs.stat(filePath)).mtimeMs > RESULT_CACHE.TTL_SECONDS * 1000) {
+        await fs.unlink(filePath);
+        removed++;
+      }
+    } catch {
+      // Removed concurrently
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[Result Cache] Pruned ${removed} expired file(s)`);
+  }
+}
+
+/**
+ * Looks up every image of a request
+ * Counts one hit or miss per request
+ *
+ * @param keys - Cache keys (see buildCacheKeys)
+ * @returns The cached images in order, or null unless all of them are cached
+ */
+export async function getCachedImages(keys: string[]): Promise<ProviderImage[] | null> {
+  const entries = await connection.mget(keys.map((key) => `${RESULT_CACHE.KEY_PREFIX}:${key}`));
+
+  let images: ProviderImage[] | null = [];
+  for (let i = 0; i < keys.length; i++) {
+    const buffer = entries[i] ? await fs.readFile(getCacheFilePath(keys[i])).catch(() => null) : null;
+    if (!buffer) {
+      images = null;
+      break;
+    }
+    const entry = JSON.parse(entries[i] as string) as CacheEntry;
+    images.push({
+      buffer,
+      seed: entry.seed,
+      provider: entry.provider,
+      model: entry.model,
+      modelId: entry.modelId,
+    });
+  }
+
+  await connection.hincrby(RESULT_CACHE.STATS_KEY, images ? 'hits' : 'misses', 1);
+  return images;
+}
+
+/**
+ * Stores a generated image
+ *
+ * @param key - Cache key of the image
+ * @param image - Image as returned by the provider
+ */
+export async function cacheImage(key: string, image: ProviderImage): Promise<void> {
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  await pruneExpiredFiles();
+
+  const entry: CacheEntry = {
+    seed: image.seed,
+    provider: image.provider,
+    model: image.model,
+    modelId: image.modelId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await fs.writeFile(getCacheFilePath(key), image.buffer);
+  await connection.set(`${RESULT_CACHE.KEY_PREFIX}:${key}`, JSON.stringify(entry), 'EX', RESULT_CACHE.TTL_SECONDS);
+}
+
+/**
+ * Gets cache configuration and hit/miss counters
+ *
+ * @returns Cache statistics
+ */
+export async function getResultCacheStats(): Promise<ResultCacheStats> {
+  const stats = await connection.hgetall(RESULT_CACHE.STATS_KEY);
+  const hits = Number(stats.hits) || 0;
+  const misses = Number(stats.misses) || 0;
+  const files = await listCacheFiles();
+
+  return {
+    enabled: RESULT_CACHE.ENABLED,
+    ttlSeconds: RESULT_CACHE.TTL_SECONDS,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    cachedImages: files.length,
+  };
+}
+
+/**
+ * Empties the cache and resets its counters
+ *
+ * @returns Number of cached images removed
+ */
+export async function clearResultCache(): Promise<number> {
+  let removed = 0;
+  for (const file of await listCacheFiles()) {
+    await fs.rm(path.join(CACHE_DIR, file), { force: true });
+    removed++;
+  }
+
+  // Entries without a file are treated as misses, so stale keys are harmless;
+  // drop them anyway to free memory
+  let cursor = '0';
+  do {
+    const [nextCursor, keys] = await connection.scan(cursor, 'MATCH', `${RESULT_CACHE.KEY_PREFIX}:*`, 'COUNT', 100);
+    cursor = nextCursor;
+    if (keys.length > 0) {
+      await connection.del(...keys);
+    }
+  } while (cursor !== '0');
+
+  console.log(`[Result Cache] Cleared ${removed} cached image(s)`);
+  return removed;
+}
@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RetentionPolicy, RetentionReason, RetentionReport, StoredFile, SweptFile } from '../types';
+import { deleteImage, deleteLogo, describeGeneratedImages, describeLogos } from './image-storage';
+import { collectReferencedFiles } from './history';
+import { connection } from './redis';
+import { RETENTION } from './constants';
+
+/**
+ * Retention of generated images and uploaded logos
+ *
+ * A periodic sweep removes files older than the maximum age, then the
+ * oldest remaining files while the total size is over the limit. Files
+ * referenced by generation history can be exempted. Only one instance
+ * sweeps at a time (Redis lock), and the last report is kept in Redis.
+ */
+
+/**
+ * A stored file considered by a sweep
+ */
+interface SweepCandidate extends StoredFile {
+  kind: SweptFile['kind'];
+  /** Kept because generation history references it */
+  referenced: boolean;
+}
+
+/**
+ * Gets the configured retention policy
+ *
+ * @returns Policy from the RETENTION_* environment settings
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    maxAgeDays: RETENTION.MAX_AGE_DAYS,
+    maxTotalBytes: RETENTION.MAX_TOTAL_BYTES,
+    keepReferenced: RETENTION.KEEP_REFERENCED,
+  };
+}
+
+/**
+ * Whether a policy limits anything
+ *
+ * @param policy - Retention policy
+ * @returns true if the policy sets a maximum age or total size
+ */
+export function hasRetentionLimits(policy: RetentionPolicy): boolean {
+  return policy.maxAgeDays > 0 || policy.maxTotalBytes > 0;
+}
+
+/**
+ * Lists every stored image and logo, oldest first
+ */
+async function listCandidates(keepReferenced: boolean): Promise<SweepCandidate[]> {
+  const [images, logos, referenced] = await Promise.all([
+    describeGeneratedImages(),
+    describeLogos(),
+    keepReferenced ? collectReferencedFiles() : null,
+  ]);
+
+  return [
+    ...images.map((file) => ({ ...file, kind: 'image' as const, referenced: !!referenced?.images.has(file.filename) })),
+    ...logos.map((file) => ({ ...file, kind: 'logo' as const, referenced: !!referenced?.logos.has(file.filename) })),
+  ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Picks the files a policy removes
+ *
+ * @param candidates - Stored files, oldest first
+ * @param policy - Retention policy
+ * @param now - Reference time in ms
+ * @returns Files to remove and the rule that selected each
+ */
+function selectExpired(candidates: SweepCandidate[], policy: RetentionPolicy, now: number): Map<SweepCandidate, RetentionReason> {
+  const selected = new Map<SweepCandidate, RetentionReason>();
+  const removable = candidates.filter((file) => !file.referenced);
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = new Date(now - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    removable
+      .filter((file) => file.createdAt < cutoff)
+      .forEach((file) => selected.set(file, 'max_age'));
+  }
+
+  if (policy.maxTotalBytes > 0) {
+    // Referenced files count toward the total but are never removed
+    let total = candidates
+      .filter((file) => !selected.has(file))
+      .reduce((sum, file) => sum + file.size, 0);
+
+    for (const file of removable) {
+      if (total <= policy.maxTotalBytes) {
+        break;
+      }
+      if (!selected.has(file)) {
+        selected.set(file, 'max_total_bytes');
+        total -= file.size;
+      }
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Sums the sizes of files
+ */
+function totalBytes(files: { size: number }[]): number {
+  return files.reduce((sum, file) => sum + file.size, 0);
+}
+
+/**
+ * Enforces the retention policy once
+ *
+ * A dry run reports what would be removed without deleting anything and
+ * may run alongside a real sweep.
+ *
+ * @param options - dryRun to only report
+ * @returns Sweep report, or null if another sweep is already running
+ */
+export async function sweepStorage(options: { dryRun?: boolean } = {}): Promise<RetentionReport | null> {
+  const dryRun = !!options.dryRun;
+  const policy = getRetentionPolicy();
+  const lockToken = uuidv4();
+
+  if (!dryRun) {
+    const locked = await connection.set(RETENTION.LOCK_KEY, lockToken, 'PX', RETENTION.LOCK_TTL_MS, 'NX');
+    if (!locked) {
+      console.log('[Retention] Another sweep is running, skipping');
+      return null;
+    }
+  }
+
+  try {
+    const startedAt = new Date();
+    const candidates = await listCandidates(policy.keepReferenced);
+    const expired = selectExpired(candidates, policy, startedAt.getTime());
+
+    const deleted: SweptFile[] = [];
+    const failed: string[] = [];
+    for (const [file, reason] of expired) {
+      const removed = dryRun || (file.kind === 'image' ? await deleteImage(file.filename) : await deleteLogo(file.filename));
+      if (removed) {
+        deleted.push({ kind: file.kind, filename: file.filename, size: file.size, createdAt: file.createdAt, reason });
+      } else {
+        failed.push(file.filename);
+      }
+    }
+
+    const reclaimedBytes = totalBytes(deleted);
+    const report: RetentionReport = {
+      dryRun,
+      policy,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      scanned: { files: candidates.length, bytes: totalBytes(candidates) },
+      referenced: candidates.filter((file) => file.referenced).length,
+      deleted,
+      reclaimedBytes,
+      failed,
+      remaining: { files: candidates.length - deleted.length, bytes: totalBytes(candidates) - reclaimedBytes },
+    };
+
+    console.log(
+      `[Retention] ${dryRun ? 'Dry run: would remove' : 'Removed'} ${deleted.length}/${candidates.length} file(s), ` +
+      `${reclaimedBytes} bytes${failed.length > 0 ? `, ${failed.length} failed` : ''}`
+    );
+
+    if (!dryRun) {
+      await connection.set(RETENTION.REPORT_KEY, JSON.stringify(report));
+    }
+    return report;
+  } finally {
+    if (!dryRun && (await connection.get(RETENTION.LOCK_KEY)) === lockToken) {
+      await connection.del(RETENTION.LOCK_KEY);
+    }
+  }
+}
+
+/**
+ * Gets the report of the last sweep that deleted files (dry runs are not kept)
+ *
+ * @returns Report, or null before the first sweep
+ */
+export async function getLastRetentionReport(): Promise<RetentionReport | null> {
+  const report = await connection.get(RETENTION.REPORT_KEY);
+  return report ? (JSON.parse(report) as RetentionReport) : null;
+}
+
+/**
+ * Starts the periodic retention sweep
+ * Does nothing unless a maximum age or total size is configured
+ */
+export function startRetentionSweeper(): void {
+  const policy = getRetentionPolicy();
+  if (!hasRetentionLimits(policy)) {
+    console.log('[Retention] No retention limits configured, skipping.');
+    return;
+  }
+
+  console.log(
+    `[Retention] Started. Max age ${policy.maxAgeDays || 'unlimited'} day(s), ` +
+    `max total ${policy.maxTotalBytes || 'unlimited'} bytes, every ${RETENTION.INTERVAL_MS / 60000} minutes.`
+  );
+
+  setInterval(async () => {
+    try {
+      await sweepStorage();
+    } catch (error) {
+      console.error('[Retention] Sweep failed:', error);
+    }
+  }, RETENTION.INTERVAL_MS);
+}
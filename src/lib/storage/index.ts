@@ -0,0 +1,34 @@
+import { StorageBackend, StorageBackendName } from './types';
+import { localBackend } from './local';
+import { s3Backend } from './s3';
+import { STORAGE } from '../constants';
+
+export { StorageError } from './types';
+export type { StorageBackend, StorageBackendName, StoredObject } from './types';
+
+/**
+ * Storage backends by name
+ */
+const BACKENDS: Record<StorageBackendName, StorageBackend> = {
+  local: localBackend,
+  s3: s3Backend,
+};
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Gets the configured storage backend
+ * Unknown STORAGE_BACKEND values fall back to local storage
+ *
+ * @returns Storage backend
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = BACKENDS[STORAGE.BACKEND as StorageBackendName];
+    if (!storage) {
+      console.warn(`[Storage] Unknown storage backend "${STORAGE.BACKEND}", using local storage`);
+      storage = localBackend;
+    }
+  }
+  return storage;
+}
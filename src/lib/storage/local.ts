@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { StorageBackend, StorageError, StoredObject } from './types';
+import { STORAGE } from '../constants';
+
+/**
+ * Local filesystem storage
+ * Keys map to files under public/, which express serves statically, so
+ * public URLs are plain paths. Only suitable for a single instance.
+ */
+
+/**
+ * Full path to the storage root
+ */
+const LOCAL_ROOT = path.join(process.cwd(), STORAGE.LOCAL_DIR);
+
+/**
+ * Maps an object key to its file path
+ *
+ * @param key - Object key
+ * @returns Absolute file path
+ * @throws {StorageError} If the key points outside the storage root
+ */
+function resolveKey(key: string): string {
+  const filePath = path.join(LOCAL_ROOT, ...key.split('/'));
+  if (!filePath.startsWith(LOCAL_ROOT + path.sep)) {
+    throw new StorageError(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+/**
+ * Whether an error means the file does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Reads a file's size and modification time
+ *
+ * @param key - Object key
+ * @returns Object details, or null if there is no such file
+ */
+async function statFile(key: string): Promise<StoredObject | null> {
+  try {
+    const stats = await fs.stat(resolveKey(key));
+    return stats.isFile() ? { key, size: stats.size, lastModified: stats.mtime } : null;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Local filesystem storage backend
+ */
+export const localBackend: StorageBackend = {
+  name: 'local',
+
+  async put(key, data) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  },
+
+  async get(key) {
+    try {
+      return await fs.readFile(resolveKey(key));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  stat: statFile,
+
+  async delete(key) {
+    try {
+      await fs.unlink(resolveKey(key));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  async list(prefix) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(resolveKey(prefix));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects = await Promise.all(entries.map((entry) => statFile(`${prefix}${entry}`)));
+    return objects.filter((object): object is StoredObject => object !== null);
+  },
+
+  getPublicUrl: (key) => `/${key}`,
+};
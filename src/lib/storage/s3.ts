@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { StorageBackend, StorageError, StoredObject } from './types';
+
+/**
+ * S3-compatible object storage
+ * Talks to the S3 REST API directly with Signature Version 4, so it works
+ * against AWS S3 as well as MinIO, Cloudflare R2 and similar services.
+ */
+
+/**
+ * S3 configuration
+ * Setting S3_ENDPOINT switches to path-style URLs (http://localhost:9000/bucket/key),
+ * which MinIO and most non-AWS services expect
+ */
+const S3_CONFIG = {
+  BUCKET: process.env.S3_BUCKET || '',
+  REGION: process.env.S3_REGION || 'us-east-1',
+  ENDPOINT: (process.env.S3_ENDPOINT || '').replace(/\/+$/, ''),
+  PUBLIC_URL: (process.env.S3_PUBLIC_URL || '').replace(/\/+$/, ''), // CDN or public bucket URL; unset serves objects through this app
+  TIMEOUT_MS: Number(process.env.S3_TIMEOUT_MS) || 30000,
+  SERVICE: 's3',
+} as const;
+
+/**
+ * Reads the access keys
+ *
+ * @returns Access key ID and secret
+ * @throws {StorageError} If the bucket or keys are not configured
+ */
+function getCredentials(): { accessKeyId: string; secretAccessKey: string } {
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!S3_CONFIG.BUCKET || !accessKeyId || !secretAccessKey) {
+    throw new StorageError('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  return { accessKeyId, secretAccessKey };
+}
+
+/**
+ * Base URL of the bucket
+ */
+function getBucketUrl(): string {
+  return S3_CONFIG.ENDPOINT
+    ? `${S3_CONFIG.ENDPOINT}/${S3_CONFIG.BUCKET}`
+    : `https://${S3_CONFIG.BUCKET}.s3.${S3_CONFIG.REGION}.amazonaws.com`;
+}
+
+/**
+ * URI-encodes a value as SigV4 requires (RFC 3986, unreserved characters kept)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * URI-encodes an object key, keeping its "/" separators
+ */
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * Hex-encoded SHA-256 digest
+ */
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * HMAC-SHA256 digest
+ */
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Sends a signed request to the bucket
+ *
+ * @param method - HTTP method
+ * @param key - Object key, empty for bucket-level calls
+ * @param options - Query parameters, body and extra headers
+ * @returns Response; callers check the status
+ * @throws {StorageError} If the service cannot be reached
+ */
+async function s3Request(
+  method: string,
+  key: string,
+  options: { query?: Record<string, string>; body?: Buffer; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const { accessKeyId, secretAccessKey } = getCredentials();
+  const url = new URL(`${getBucketUrl()}/${encodeKey(key)}`);
+  const canonicalQuery = Object.keys(options.query ?? {})
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(options.query![name])}`)
+    .join('&');
+  url.search = canonicalQuery;
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(options.body ?? '');
+  const signedHeaders: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const headerNames = Object.keys(signedHeaders).sort();
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    ...headerNames.map((name) => `${name}:${signedHeaders[name]}`),
+    '',
+    headerNames.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${dateStamp}/${S3_CONFIG.REGION}/${S3_CONFIG.SERVICE}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = [dateStamp, S3_CONFIG.REGION, S3_CONFIG.SERVICE, 'aws4_request']
+    .reduce<string | Buffer>((signingKey, part) => hmac(signingKey, part), `AWS4${secretAccessKey}`);
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  try {
+    return await fetch(url, {
+      method,
+      headers: {
+        ...options.headers,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+      body: options.body,
+      signal: AbortSignal.timeout(S3_CONFIG.TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new StorageError(`S3 ${method} ${key || '/'} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Turns an unsuccessful response into an error
+ */
+async function toStorageError(method: string, key: string, response: Response): Promise<StorageError> {
+  const body = await response.text().catch(() => '');
+  const code = /<Code>([^<]+)<\/Code>/.exec(body)?.[1] ?? response.statusText;
+  return new StorageError(`S3 ${method} ${key || '/'} failed with ${response.status}: ${code}`, response.status);
+}
+
+/**
+ * Decodes the XML entities S3 escapes in keys
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads an object's size and modification time with a HEAD request
+ *
+ * @param key - Object key
+ * @returns Object details, or null if there is no such object
+ */
+async function headObject(key: string): Promise<StoredObject | null> {
+  const response = await s3Request('HEAD', key);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await toStorageError('HEAD', key, response);
+  }
+  return {
+    key,
+    size: Number(response.headers.get('content-length')) || 0,
+    lastModified: new Date(response.headers.get('last-modified') ?? Date.now()),
+  };
+}
+
+/**
+ * S3-compatible storage backend
+ */
+export const s3Backend: StorageBackend = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const response = await s3Request('PUT', key, { body: data, headers: { 'Content-Type': contentType } });
+    if (!response.ok) {
+      throw await toStorageError('PUT', key, response);
+    }
+  },
+
+  async get(key) {
+    const response = await s3Request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await toStorageError('GET', key, response);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  stat: headObject,
+
+  async delete(key) {
+    // S3 reports success for missing keys, so check first to report whether it existed
+    if (!(await headObject(key))) {
+      return false;
+    }
+    const response = await s3Request('DELETE', key);
+    if (!response.ok) {
+      throw await toStorageError('DELETE', key, response);
+    }
+    return true;
+  },
+
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix, delimiter: '/' };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await s3Request('GET', '', { query });
+      if (!response.ok) {
+        throw await toStorageError('LIST', prefix, response);
+      }
+
+      const xml = await response.text();
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = /<Key>([^<]*)<\/Key>/.exec(contents)?.[1];
+        if (key) {
+          objects.push({
+            key: decodeXml(key),
+            size: Number(/<Size>(\d+)<\/Size>/.exec(contents)?.[1] ?? 0),
+            lastModified: new Date(/<LastModified>([^<]+)<\/LastModified>/.exec(contents)?.[1] ?? 0),
+          });
+        }
+      }
+
+      const token = /<NextContinuationToken>([^<]+)<\/NextContinuationToken>/.exec(xml)?.[1];
+      continuationToken = token ? decodeXml(token) : undefined;
+    } while (continuationToken);
+
+    return objects;
+  },
+
+  getPublicUrl: (key) => (S3_CONFIG.PUBLIC_URL ? `${S3_CONFIG.PUBLIC_URL}/${encodeKey(key)}` : `/${key}`),
+};
@@ -0,0 +1,95 @@
+/**
+ * Storage backend contract
+ *
+ * Generated images, their metadata sidecars and uploaded logos are stored
+ * through a StorageBackend, so several web and worker instances can share
+ * them. Objects are addressed by keys such as "generated/img_….png" or
+ * "logos/brand_1700000000000.png".
+ */
+
+/**
+ * Storage backends
+ */
+export type StorageBackendName = 'local' | 's3';
+
+/**
+ * A stored object's size and modification time
+ */
+export interface StoredObject {
+  /** Object key */
+  key: string;
+  /** Size in bytes */
+  size: number;
+  /** When the object was last written */
+  lastModified: Date;
+}
+
+/**
+ * A place to store files
+ */
+export interface StorageBackend {
+  /** Identifier used in configuration */
+  readonly name: StorageBackendName;
+  /**
+   * Writes an object, replacing any existing one
+   *
+   * @param key - Object key
+   * @param data - Object content
+   * @param contentType - MIME type served with the object
+   * @throws {StorageError} If the object cannot be written
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /**
+   * Reads an object
+   *
+   * @param key - Object key
+   * @returns Object content, or null if it does not exist
+   * @throws {StorageError} If the backend cannot be reached
+   */
+  get(key: string): Promise<Buffer | null>;
+  /**
+   * Reads an object's size and modification time
+   *
+   * @param key - Object key
+   * @returns Object details, or null if it does not exist
+   * @throws {StorageError} If the backend cannot be reached
+   */
+  stat(key: string): Promise<StoredObject | null>;
+  /**
+   * Deletes an object
+   *
+   * @param key - Object key
+   * @returns true if the object existed
+   * @throws {StorageError} If the object cannot be deleted
+   */
+  delete(key: string): Promise<boolean>;
+  /**
+   * Lists the objects directly under a prefix
+   *
+   * @param prefix - Key prefix ending in "/", e.g. "generated/"
+   * @returns Objects in no particular order
+   * @throws {StorageError} If the backend cannot be reached
+   */
+  list(prefix: string): Promise<StoredObject[]>;
+  /**
+   * URL clients download an object from
+   *
+   * @param key - Object key
+   * @returns Absolute URL, or a path served by this app
+   */
+  getPublicUrl(key: string): string;
+}
+
+/**
+ * Error raised by a storage backend
+ */
+export class StorageError extends Error {
+  /** HTTP status of the failed call, for remote backends */
+  statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = 'StorageError';
+    this.statusCode = statusCode;
+  }
+}
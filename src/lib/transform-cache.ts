@@ -0,0 +1,182 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IMAGE_TRANSFORM } from './constants';
+
+/**
+ * Disk cache of transformed images
+ *
+ * Results of GET /img/:filename are kept in `cache/transforms` under a
+ * byte budget; when it is exceeded the least recently used files are
+ * evicted. Recency survives restarts through each file's modification
+ * time, which is bumped on every hit. Like the result cache, files stay on
+ * each instance's local disk.
+ *
+ * Files are named `{source}.{key}.img` so the transforms of an image can
+ * be dropped when it is deleted.
+ */
+
+/**
+ * A cached transform on disk
+ */
+interface CachedTransform {
+  /** Filename of the generated image it was made from */
+  source: string;
+  size: number;
+}
+
+/**
+ * Full path to the cache directory
+ */
+const CACHE_DIR = path.join(process.cwd(), IMAGE_TRANSFORM.CACHE_DIR);
+
+/**
+ * Cached files by cache filename, least recently used first
+ */
+let index: Promise<Map<string, CachedTransform>> | null = null;
+let totalBytes = 0;
+
+/**
+ * Cache filename of a transform
+ */
+function getCacheFilename(source: string, key: string): string {
+  return `${source}.${key}.img`;
+}
+
+/**
+ * Source image filename of a cache file, or null for foreign files
+ */
+function parseCacheFilename(filename: string): string | null {
+  const match = /^(.+)\.[0-9a-f]{64}\.img$/.exec(filename);
+  return match ? match[1] : null;
+}
+
+/**
+ * Builds the index from the cache directory, ordered by modification time
+ */
+async function loadIndex(): Promise<Map<string, CachedTransform>> {
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+
+  const files: { filename: string; source: string; size: number; mtimeMs: number }[] = [];
+  for (const filename of await fs.readdir(CACHE_DIR)) {
+    const source = parseCacheFilename(filename);
+    if (!source) {
+      continue;
+    }
+    try {
+      const { size, mtimeMs } = await fs.stat(path.join(CACHE_DIR, filename));
+      files.push({ filename, source, size, mtimeMs });
+    } catch {
+      // Removed concurrently
+    }
+  }
+
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  return new Map(files.map(({ filename, source, size }) => [filename, { source, size }]));
+}
+
+/**
+ * Gets the index, loading it on first use
+ */
+function getIndex(): Promise<Map<string, CachedTransform>> {
+  if (!index) {
+    index = loadIndex().catch((error) => {
+      index = null;
+      throw error;
+    });
+  }
+  return index;
+}
+
+/**
+ * Removes a file from the cache
+ */
+async function removeEntry(entries: Map<string, CachedTransform>, filename: string): Promise<void> {
+  const entry = entries.get(filename);
+  if (!entry) {
+    return;
+  }
+  entries.delete(filename);
+  totalBytes -= entry.size;
+  await fs.rm(path.join(CACHE_DIR, filename), { force: true });
+}
+
+/**
+ * Looks up a transform and marks it as recently used
+ *
+ * @param source - Filename of the generated image
+ * @param key - Hash of the transform (hex SHA-256)
+ * @returns Cached image data, or null on a miss
+ */
+export async function getCachedTransform(source: string, key: string): Promise<Buffer | null> {
+  const entries = await getIndex();
+  const filename = getCacheFilename(source, key);
+  const entry = entries.get(filename);
+  if (!entry) {
+    return null;
+  }
+
+  const filePath = path.join(CACHE_DIR, filename);
+  try {
+    const buffer = await fs.readFile(filePath);
+    entries.delete(filename);
+    entries.set(filename, entry);
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return buffer;
+  } catch {
+    // Removed behind the cache's back
+    await removeEntry(entries, filename);
+    return null;
+  }
+}
+
+/**
+ * Stores a transform, evicting the least recently used files while over the byte budget
+ * Results larger than the whole budget are not cached
+ *
+ * @param source - Filename of the generated image
+ * @param key - Hash of the transform (hex SHA-256)
+ * @param buffer - Transformed image data
+ */
+export async function cacheTransform(source: string, key: string, buffer: Buffer): Promise<void> {
+  if (buffer.length > IMAGE_TRANSFORM.CACHE_MAX_BYTES) {
+    return;
+  }
+
+  const entries = await getIndex();
+  const filename = getCacheFilename(source, key);
+  await removeEntry(entries, filename);
+  await fs.writeFile(path.join(CACHE_DIR, filename), buffer);
+  entries.set(filename, { source, size: buffer.length });
+  totalBytes += buffer.length;
+
+  let evicted = 0;
+  for (const oldest of entries.keys()) {
+    if (totalBytes <= IMAGE_TRANSFORM.CACHE_MAX_BYTES) {
+      break;
+    }
+    await removeEntry(entries, oldest);
+    evicted++;
+  }
+
+  if (evicted > 0) {
+    console.log(`[Transform Cache] Evicted ${evicted} least recently used file(s)`);
+  }
+}
+
+/**
+ * Drops every cached transform of an image
+ *
+ * @param source - Filename of the deleted image
+ * @returns Number of cached files removed
+ */
+export async function purgeTransforms(source: string): Promise<number> {
+  const entries = await getIndex();
+  const filenames = [...entries].filter(([, entry]) => entry.source === source).map(([filename]) => filename);
+
+  for (const filename of filenames) {
+    await removeEntry(entries, filename);
+  }
+  return filenames.length;
+}
@@ -1,5 +1,21 @@
-import { GenerateRequest } from '../types';
-import { IMAGE_LIMITS, VALIDATION } from './constants';
+import {
+  DerivativeSettings,
+  GenerateRequest,
+  GenerationHistoryQuery,
+  GenerationSettings,
+  ImageModel,
+  ImageProviderName,
+  ImageTransform,
+  OutputFormat,
+  OutputSettings,
+  ParameterRange,
+} from '../types';
+import { IMAGE_LIMITS, VALIDATION, PROMPT_OPTIONS, AI_PARAMS, DERIVATIVES, HISTORY, IMAGE_TRANSFORM, OUTPUT, PROVIDER } from './constants';
+import { decodeCursor } from './history';
+import { findModel, getProvider, isProviderName, listModels, resolveModel } from './providers';
+import { isWebhookDeliveryAvailable } from './webhook-signing';
+import { isVariantMatrix, expandVariants } from './variants';
+import { resolveDerivativeSettings } from './derivatives';
 
 /**
  * Validation error class for request validation failures
@@ -43,7 +59,11 @@ export function validateDescription(description: unknown): asserts description i
  * @throws {ValidationError} If numImages is out of valid range
  */
 export function validateNumImages(numImages: number): void {
-  if (numImages < IMAGE_LIMITS.MIN_IMAGES || numImages > IMAGE_LIMITS.MAX_IMAGES) {
+  if (
+    !Number.isInteger(numImages) ||
+    numImages < IMAGE_LIMITS.MIN_IMAGES ||
+    numImages > IMAGE_LIMITS.MAX_IMAGES
+  ) {
     throw new ValidationError(
       `Number of images must be between ${IMAGE_LIMITS.MIN_IMAGES} and ${IMAGE_LIMITS.MAX_IMAGES}`
     );
@@ -51,18 +71,328 @@ export function validateNumImages(numImages: number): void {
 }
 
 /**
- * Validates the resolution format
+ * Validates the generation seed
+ * 
+ * @param seed - Seed value
+ * @throws {ValidationError} If seed is not an integer in the supported range
+ */
+export function validateSeed(seed: unknown): void {
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > AI_PARAMS.MAX_SEED) {
+    throw new ValidationError(`Seed must be an integer between 0 and ${AI_PARAMS.MAX_SEED}`);
+  }
+}
+
+/**
+ * Validates a style/angle/color field that may be a single value or a variant list
+ * 
+ * @param value - Field value
+ * @param field - Field name for error messages
+ * @param allowed - Allowed values, or undefined to accept any non-empty string
+ * @throws {ValidationError} If the value or any list entry is invalid
+ */
+export function validateVariantField(
+  value: unknown,
+  field: string,
+  allowed?: readonly string[]
+): void {
+  const values = Array.isArray(value) ? value : [value];
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new ValidationError(`${field} list must not be empty`);
+    }
+    if (new Set(value).size !== value.length) {
+      throw new ValidationError(`${field} list must not contain duplicates`);
+    }
+  }
+
+  for (const entry of values) {
+    if (typeof entry !== 'string' || entry.trim().length === 0) {
+      throw new ValidationError(`${field} must be a non-empty string or a list of strings`);
+    }
+    if (allowed && !allowed.includes(entry)) {
+      throw new ValidationError(`${field} must be one of: ${allowed.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Validates the number of images in variant matrix mode
+ * The total across all variants is capped instead of the per-request 1-4 limit
+ * 
+ * @param numImages - Images per variant
+ * @param variantCount - Number of style × angle × color combinations
+ * @throws {ValidationError} If the total exceeds the cap
+ */
+export function validateVariantImageCount(numImages: number, variantCount: number): void {
+  if (!Number.isInteger(numImages) || numImages < IMAGE_LIMITS.MIN_IMAGES) {
+    throw new ValidationError(`Number of images must be an integer of at least ${IMAGE_LIMITS.MIN_IMAGES}`);
+  }
+
+  const total = numImages * variantCount;
+  if (total > IMAGE_LIMITS.MAX_VARIANT_IMAGES) {
+    throw new ValidationError(
+      `Variant matrix would produce ${total} images (${variantCount} variants × ${numImages}); ` +
+      `the maximum is ${IMAGE_LIMITS.MAX_VARIANT_IMAGES}`
+    );
+  }
+}
+
+/**
+ * Validates the resolution format and, if a model is given, that the
+ * model can produce it
  * 
  * @param resolution - Resolution string (e.g., "1024x1024")
+ * @param model - Model the image will be generated with
  * @throws {ValidationError} If resolution is invalid
  */
-export function validateResolution(resolution: string): void {
+export function validateResolution(resolution: string, model?: ImageModel): void {
   const validResolutions = IMAGE_LIMITS.SUPPORTED_RESOLUTIONS as readonly string[];
   if (!validResolutions.includes(resolution)) {
     throw new ValidationError(
       `Resolution must be one of: ${validResolutions.join(', ')}`
     );
   }
+
+  if (model && !model.supportedResolutions.includes(resolution)) {
+    throw new ValidationError(
+      `Model "${model.id}" (${model.provider}) supports resolutions: ${model.supportedResolutions.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Validates an aspect-ratio preset
+ * 
+ * @param aspectRatio - Preset name (e.g., "16:9")
+ * @throws {ValidationError} If the preset is unknown
+ */
+export function validateAspectRatio(aspectRatio: string): void {
+  const presets = Object.keys(IMAGE_LIMITS.ASPECT_RATIOS);
+  if (!presets.includes(aspectRatio)) {
+    throw new ValidationError(`Aspect ratio must be one of: ${presets.join(', ')}`);
+  }
+}
+
+/**
+ * Validates a numeric model parameter against the model's bounds
+ * 
+ * @param value - Parameter value
+ * @param field - Setting name for error messages
+ * @param range - Inclusive bounds
+ * @param integer - Whether the value must be a whole number
+ * @param model - Model the image will be generated with
+ * @throws {ValidationError} If the value is not a number within the bounds
+ */
+function validateParameterRange(
+  value: unknown,
+  field: string,
+  range: ParameterRange,
+  integer: boolean,
+  model: ImageModel
+): void {
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    (integer && !Number.isInteger(value)) ||
+    value < range.min ||
+    value > range.max
+  ) {
+    throw new ValidationError(
+      `settings.${field} must be ${integer ? 'an integer' : 'a number'} between ${range.min} and ${range.max} ` +
+      `for model "${model.id}" (${model.provider})`
+    );
+  }
+}
+
+/**
+ * Validates seed, guidance scale, inference steps and scheduler against
+ * what the model accepts
+ * 
+ * @param settings - Generation settings
+ * @param model - Model the image will be generated with
+ * @throws {ValidationError} If a parameter is unsupported or out of bounds
+ */
+export function validateModelParameters(settings: GenerationSettings, model: ImageModel): void {
+  const { seed, guidanceScale, numInferenceSteps, scheduler } = settings;
+
+  if (seed !== undefined && !model.capabilities.seed) {
+    throw new ValidationError(`Model "${model.id}" (${model.provider}) does not support seeds`);
+  }
+
+  if (guidanceScale !== undefined) {
+    if (!model.capabilities.guidanceScale) {
+      throw new ValidationError(`Model "${model.id}" (${model.provider}) does not support guidanceScale`);
+    }
+    validateParameterRange(guidanceScale, 'guidanceScale', model.limits.guidanceScale, false, model);
+  }
+
+  if (numInferenceSteps !== undefined) {
+    if (!model.capabilities.inferenceSteps) {
+      throw new ValidationError(`Model "${model.id}" (${model.provider}) does not support numInferenceSteps`);
+    }
+    validateParameterRange(numInferenceSteps, 'numInferenceSteps', model.limits.inferenceSteps, true, model);
+  }
+
+  if (scheduler !== undefined) {
+    if (model.schedulers.length === 0) {
+      throw new ValidationError(`Model "${model.id}" (${model.provider}) does not support schedulers`);
+    }
+    if (!model.schedulers.includes(scheduler)) {
+      throw new ValidationError(
+        `Model "${model.id}" (${model.provider}) supports schedulers: ${model.schedulers.join(', ')}`
+      );
+    }
+  }
+}
+
+/**
+ * Validates the output format and encoder settings
+ * 
+ * @param output - Output settings
+ * @throws {ValidationError} If a setting is unknown or does not apply to the format
+ */
+export function validateOutputSettings(output: unknown): void {
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    throw new ValidationError('settings.output must be an object');
+  }
+
+  const { format = OUTPUT.DEFAULT_FORMAT, quality, chromaSubsampling, stripMetadata } = output as OutputSettings;
+
+  if (!OUTPUT.FORMATS.includes(format)) {
+    throw new ValidationError(`settings.output.format must be one of: ${OUTPUT.FORMATS.join(', ')}`);
+  }
+
+  if (quality !== undefined) {
+    if (!(OUTPUT.LOSSY_FORMATS as readonly OutputFormat[]).includes(format)) {
+      throw new ValidationError(`settings.output.quality applies to ${OUTPUT.LOSSY_FORMATS.join(', ')} only`);
+    }
+    if (!Number.isInteger(quality) || quality < OUTPUT.QUALITY_MIN || quality > OUTPUT.QUALITY_MAX) {
+      throw new ValidationError(
+        `settings.output.quality must be an integer between ${OUTPUT.QUALITY_MIN} and ${OUTPUT.QUALITY_MAX}`
+      );
+    }
+  }
+
+  if (chromaSubsampling !== undefined) {
+    if (!(OUTPUT.CHROMA_SUBSAMPLING_FORMATS as readonly OutputFormat[]).includes(format)) {
+      throw new ValidationError(
+        `settings.output.chromaSubsampling applies to ${OUTPUT.CHROMA_SUBSAMPLING_FORMATS.join(', ')} only`
+      );
+    }
+    if (!OUTPUT.CHROMA_SUBSAMPLING.includes(chromaSubsampling)) {
+      throw new ValidationError(
+        `settings.output.chromaSubsampling must be one of: ${OUTPUT.CHROMA_SUBSAMPLING.join(', ')}`
+      );
+    }
+  }
+
+  if (stripMetadata !== undefined && typeof stripMetadata !== 'boolean') {
+    throw new ValidationError('settings.output.stripMetadata must be a boolean');
+  }
+}
+
+/**
+ * Validates the widths and formats of resized copies
+ * 
+ * @param derivatives - Derivative settings
+ * @throws {ValidationError} If a width or format is invalid, or too many copies are requested
+ */
+export function validateDerivativeSettings(derivatives: unknown): void {
+  if (!derivatives || typeof derivatives !== 'object' || Array.isArray(derivatives)) {
+    throw new ValidationError('settings.derivatives must be an object');
+  }
+
+  const { widths, formats } = derivatives as DerivativeSettings;
+
+  if (widths !== undefined) {
+    if (
+      !Array.isArray(widths) ||
+      widths.some((width) => !Number.isInteger(width) || width < DERIVATIVES.MIN_WIDTH || width > DERIVATIVES.MAX_WIDTH)
+    ) {
+      throw new ValidationError(
+        `settings.derivatives.widths must be a list of integers between ${DERIVATIVES.MIN_WIDTH} and ${DERIVATIVES.MAX_WIDTH}`
+      );
+    }
+    if (new Set(widths).size !== widths.length) {
+      throw new ValidationError('settings.derivatives.widths must not contain duplicates');
+    }
+  }
+
+  if (formats !== undefined) {
+    if (!Array.isArray(formats) || formats.length === 0 || formats.some((format) => !OUTPUT.FORMATS.includes(format))) {
+      throw new ValidationError(`settings.derivatives.formats must be a non-empty list of: ${OUTPUT.FORMATS.join(', ')}`);
+    }
+    if (new Set(formats).size !== formats.length) {
+      throw new ValidationError('settings.derivatives.formats must not contain duplicates');
+    }
+  }
+
+  const count = (widths ?? resolveDerivativeSettings().widths ?? []).length * (formats?.length ?? 1);
+  if (count > DERIVATIVES.MAX_PER_IMAGE) {
+    throw new ValidationError(`At most ${DERIVATIVES.MAX_PER_IMAGE} resized copies (widths × formats) per image`);
+  }
+}
+
+/**
+ * Validates the requested image provider
+ * 
+ * @param provider - Provider name
+ * @throws {ValidationError} If the provider is unknown or has no credentials configured
+ */
+export function validateProvider(provider: unknown): void {
+  if (!isProviderName(provider)) {
+    throw new ValidationError(`Provider must be one of: ${PROVIDER.NAMES.join(', ')}`);
+  }
+  if (!getProvider(provider).isConfigured()) {
+    throw new ValidationError(`Provider "${provider}" is not configured on this server`);
+  }
+}
+
+/**
+ * Validates the requested model
+ * 
+ * @param modelId - Model id
+ * @param provider - Provider named by the request, if any
+ * @throws {ValidationError} If the model is unknown, runs on another provider
+ *                           or its provider is not configured
+ */
+export function validateModel(modelId: unknown, provider?: ImageProviderName): void {
+  const model = typeof modelId === 'string' ? findModel(modelId) : undefined;
+  if (!model) {
+    throw new ValidationError(`Model must be one of: ${listModels().map((entry) => entry.id).join(', ')}`);
+  }
+  if (provider !== undefined && provider !== model.provider) {
+    throw new ValidationError(`Model "${model.id}" runs on ${model.provider}, not ${provider}`);
+  }
+  validateProvider(model.provider);
+}
+
+/**
+ * Validates a webhook callback URL
+ * 
+ * @param callbackUrl - URL to notify when the job finishes
+ * @throws {ValidationError} If the URL is invalid or webhooks are not configured
+ */
+export function validateCallbackUrl(callbackUrl: unknown): void {
+  if (typeof callbackUrl !== 'string') {
+    throw new ValidationError('Callback URL must be a string');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    throw new ValidationError('Callback URL must be a valid absolute URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError('Callback URL must use http or https');
+  }
+
+  if (!isWebhookDeliveryAvailable()) {
+    throw new ValidationError('Webhook callbacks are not configured on this server (WEBHOOK_SECRET not set)');
+  }
 }
 
 /**
@@ -82,16 +412,74 @@ export function validateGenerateRequest(body: unknown): GenerateRequest {
   // Validate required fields
   validateDescription(req.description);
 
+  // Validate style/angle/color (single values or variant lists)
+  if (req.style !== undefined) {
+    validateVariantField(req.style, 'Style', PROMPT_OPTIONS.STYLES);
+  }
+  if (req.angle !== undefined) {
+    validateVariantField(req.angle, 'Angle', PROMPT_OPTIONS.ANGLES);
+  }
+  if (req.color !== undefined) {
+    validateVariantField(req.color, 'Color');
+  }
+
+  // Variant matrix mode caps the total image count instead of numImages
+  if (isVariantMatrix(req)) {
+    validateVariantImageCount(
+      req.settings?.numImages ?? IMAGE_LIMITS.DEFAULT_IMAGES,
+      expandVariants(req).length
+    );
+  }
+
+  // Validate provider if provided
+  if (req.provider !== undefined) {
+    validateProvider(req.provider);
+  }
+
+  // Validate model if provided; it selects its provider
+  if (req.model !== undefined) {
+    validateModel(req.model, req.provider);
+  }
+
   // Validate settings if provided
   if (req.settings) {
-    const { numImages, resolution } = req.settings;
+    const { numImages, resolution, aspectRatio } = req.settings;
+    const model = resolveModel(req.model, req.provider);
     
-    if (numImages !== undefined) {
+    if (numImages !== undefined && !isVariantMatrix(req)) {
       validateNumImages(numImages);
     }
+
+    if (resolution !== undefined && aspectRatio !== undefined) {
+      throw new ValidationError('Specify either resolution or aspectRatio, not both');
+    }
     
     if (resolution !== undefined) {
-      validateResolution(resolution);
+      validateResolution(resolution, model);
+    }
+
+    if (aspectRatio !== undefined) {
+      validateAspectRatio(aspectRatio);
+      validateResolution(IMAGE_LIMITS.ASPECT_RATIOS[aspectRatio], model);
+    }
+
+    if (req.settings.seed !== undefined) {
+      validateSeed(req.settings.seed);
+    }
+
+    if (req.settings.cache !== undefined && typeof req.settings.cache !== 'boolean') {
+      throw new ValidationError('settings.cache must be a boolean');
+    }
+
+    // Reject settings the model cannot honour
+    validateModelParameters(req.settings, model);
+
+    if (req.settings.output !== undefined) {
+      validateOutputSettings(req.settings.output);
+    }
+
+    if (req.settings.derivatives !== undefined) {
+      validateDerivativeSettings(req.settings.derivatives);
     }
   }
 
@@ -100,9 +488,178 @@ export function validateGenerateRequest(body: unknown): GenerateRequest {
     validateLogoSettings(req.logo);
   }
 
+  // Validate webhook callback if provided
+  if (req.callbackUrl !== undefined) {
+    validateCallbackUrl(req.callbackUrl);
+  }
+
   return req as GenerateRequest;
 }
 
+/**
+ * Parses a query string date parameter (ISO 8601 or epoch milliseconds)
+ * 
+ * @param value - Query parameter value
+ * @param field - Parameter name for error messages
+ * @returns Parsed date, or undefined if omitted
+ * @throws {ValidationError} If the value is not a valid date
+ */
+function parseDateParam(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = typeof value === 'string'
+    ? new Date(/^\d+$/.test(value) ? Number(value) : value)
+    : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 date or epoch milliseconds`);
+  }
+  return date;
+}
+
+/**
+ * Validates and parses generation history search parameters
+ * 
+ * @param query - Raw query string parameters
+ * @returns Parsed history query
+ * @throws {ValidationError} If any parameter is invalid
+ */
+export function validateHistoryQuery(query: Record<string, unknown>): GenerationHistoryQuery {
+  const { category, style, angle, cursor } = query;
+  const text = query.q ?? query.text;
+
+  if (category !== undefined && !PROMPT_OPTIONS.CATEGORIES.includes(category as never)) {
+    throw new ValidationError(`Category must be one of: ${PROMPT_OPTIONS.CATEGORIES.join(', ')}`);
+  }
+  if (style !== undefined && !PROMPT_OPTIONS.STYLES.includes(style as never)) {
+    throw new ValidationError(`Style must be one of: ${PROMPT_OPTIONS.STYLES.join(', ')}`);
+  }
+  if (angle !== undefined && !PROMPT_OPTIONS.ANGLES.includes(angle as never)) {
+    throw new ValidationError(`Angle must be one of: ${PROMPT_OPTIONS.ANGLES.join(', ')}`);
+  }
+  if (text !== undefined && typeof text !== 'string') {
+    throw new ValidationError('Search text must be a string');
+  }
+  if (cursor !== undefined && (typeof cursor !== 'string' || !decodeCursor(cursor))) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  let limit: number = HISTORY.DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY.MAX_PAGE_SIZE) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${HISTORY.MAX_PAGE_SIZE}`);
+    }
+  }
+
+  const from = parseDateParam(query.from, 'from');
+  const to = parseDateParam(query.to, 'to');
+  if (from && to && from > to) {
+    throw new ValidationError('from must not be after to');
+  }
+
+  return {
+    category: category as GenerationHistoryQuery['category'],
+    style: style as GenerationHistoryQuery['style'],
+    angle: angle as GenerationHistoryQuery['angle'],
+    from,
+    to,
+    text: text ? (text as string) : undefined,
+    limit,
+    cursor: cursor as string | undefined,
+  };
+}
+
+/**
+ * Sizes allowed by IMAGE_TRANSFORM_SIZES (empty allows any)
+ */
+const TRANSFORM_SIZES = IMAGE_TRANSFORM.SIZES.split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean)
+  .map(Number);
+
+/**
+ * Parses an integer query parameter of an image transformation
+ */
+function parseTransformDimension(value: unknown, name: string): number {
+  const size = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(size) || size < 1 || size > IMAGE_TRANSFORM.MAX_DIMENSION) {
+    throw new ValidationError(`${name} must be an integer between 1 and ${IMAGE_TRANSFORM.MAX_DIMENSION}`);
+  }
+  if (TRANSFORM_SIZES.length > 0 && !TRANSFORM_SIZES.includes(size)) {
+    throw new ValidationError(`${name} must be one of: ${TRANSFORM_SIZES.join(', ')}`);
+  }
+  return size;
+}
+
+/**
+ * Validates and parses the query parameters of an image transformation
+ * 
+ * @param query - Raw query string parameters (w, h, fit, format, q, bg)
+ * @param sourceFormat - Format of the image being transformed
+ * @returns Parsed transformation; empty when no parameter is set
+ * @throws {ValidationError} If a parameter is unknown, repeated or invalid
+ */
+export function validateImageTransform(query: Record<string, unknown>, sourceFormat: OutputFormat): ImageTransform {
+  for (const [name, value] of Object.entries(query)) {
+    if (!(IMAGE_TRANSFORM.PARAMS as readonly string[]).includes(name)) {
+      throw new ValidationError(`Unknown parameter ${name}; supported: ${IMAGE_TRANSFORM.PARAMS.join(', ')}`);
+    }
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${name} must be given once`);
+    }
+  }
+
+  const { w, h, fit, format, q, bg } = query as Record<string, string | undefined>;
+  const transform: ImageTransform = {};
+
+  if (w !== undefined) {
+    transform.width = parseTransformDimension(w, 'w');
+  }
+  if (h !== undefined) {
+    transform.height = parseTransformDimension(h, 'h');
+  }
+
+  if (fit !== undefined) {
+    if (!IMAGE_TRANSFORM.FITS.includes(fit as never)) {
+      throw new ValidationError(`fit must be one of: ${IMAGE_TRANSFORM.FITS.join(', ')}`);
+    }
+    if (transform.width === undefined || transform.height === undefined) {
+      throw new ValidationError('fit applies only when both w and h are set');
+    }
+    transform.fit = fit as ImageTransform['fit'];
+  }
+
+  if (format !== undefined) {
+    if (!OUTPUT.FORMATS.includes(format as never)) {
+      throw new ValidationError(`format must be one of: ${OUTPUT.FORMATS.join(', ')}`);
+    }
+    transform.format = format as OutputFormat;
+  }
+
+  if (q !== undefined) {
+    const targetFormat = transform.format ?? sourceFormat;
+    if (!(OUTPUT.LOSSY_FORMATS as readonly OutputFormat[]).includes(targetFormat)) {
+      throw new ValidationError(`q applies to ${OUTPUT.LOSSY_FORMATS.join(', ')} only`);
+    }
+    const quality = /^\d+$/.test(q) ? Number(q) : NaN;
+    if (!Number.isInteger(quality) || quality < OUTPUT.QUALITY_MIN || quality > OUTPUT.QUALITY_MAX) {
+      throw new ValidationError(`q must be an integer between ${OUTPUT.QUALITY_MIN} and ${OUTPUT.QUALITY_MAX}`);
+    }
+    transform.quality = quality;
+  }
+
+  if (bg !== undefined) {
+    const color = bg.replace(/^#/, '').toLowerCase();
+    if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(color)) {
+      throw new ValidationError('bg must be a hex color (RRGGBB or RRGGBBAA)');
+    }
+    transform.background = color;
+  }
+
+  return transform;
+}
+
 /**
  * Validates logo settings
  * 
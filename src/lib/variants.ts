@@ -0,0 +1,63 @@
+import { GenerateRequest, GenerationVariant, ImageStyle, CameraAngle } from '../types';
+
+/**
+ * Variant matrix expansion
+ *
+ * A request whose style, angle or color is an array is a variant matrix:
+ * it is expanded into the cartesian product of its values, and each
+ * combination gets its own optimized prompt and set of images.
+ */
+
+/**
+ * Normalizes a scalar-or-array field into a non-empty list
+ */
+function toList<T>(value: T | T[] | undefined, fallback: T): T[] {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value : [fallback];
+  }
+  return [value === undefined ? fallback : value];
+}
+
+/**
+ * Whether a request asks for a variant matrix (any of style/angle/color is an array)
+ *
+ * @param request - Generation request
+ * @returns true for variant matrix requests
+ */
+export function isVariantMatrix(request: Pick<GenerateRequest, 'style' | 'angle' | 'color'>): boolean {
+  return Array.isArray(request.style) || Array.isArray(request.angle) || Array.isArray(request.color);
+}
+
+/**
+ * Builds the key identifying a variant
+ *
+ * @returns "style/angle" or "style/angle/color"
+ */
+export function getVariantKey(style: ImageStyle, angle: CameraAngle, color?: string): string {
+  return color ? `${style}/${angle}/${color}` : `${style}/${angle}`;
+}
+
+/**
+ * Expands a request into its style × angle × color combinations
+ * Single values (or omitted fields) yield exactly one variant
+ *
+ * @param request - Generation request
+ * @returns Variants in style, then angle, then color order
+ */
+export function expandVariants(
+  request: Pick<GenerateRequest, 'style' | 'angle' | 'color'>
+): GenerationVariant[] {
+  const styles = toList<ImageStyle>(request.style, 'studio');
+  const angles = toList<CameraAngle>(request.angle, 'front');
+  const colors = toList<string | undefined>(request.color, undefined);
+
+  const variants: GenerationVariant[] = [];
+  for (const style of styles) {
+    for (const angle of angles) {
+      for (const color of colors) {
+        variants.push({ key: getVariantKey(style, angle, color), style, angle, color });
+      }
+    }
+  }
+  return variants;
+}
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook signing
+ *
+ * Requests are signed with HMAC-SHA256 over `${timestamp}.${body}` using
+ * WEBHOOK_SECRET. Receivers should recompute the signature and reject
+ * stale timestamps.
+ *
+ * Kept apart from the delivery queue so that checking whether webhooks are
+ * available (e.g. during request validation) starts no queue or worker.
+ */
+
+/**
+ * Gets the shared signing secret
+ * Read at call time, so a secret loaded from .env after import is seen
+ *
+ * @returns WEBHOOK_SECRET, or undefined if not configured
+ */
+export function getWebhookSecret(): string | undefined {
+  return process.env.WEBHOOK_SECRET || undefined;
+}
+
+/**
+ * Check if webhooks are available (signing secret configured)
+ */
+export function isWebhookDeliveryAvailable(): boolean {
+  return !!getWebhookSecret();
+}
+
+/**
+ * Computes the signature header value for a webhook body
+ *
+ * @param body - Serialized JSON body
+ * @param timestamp - Unix timestamp (seconds) sent in the timestamp header
+ * @param secret - Shared signing secret
+ * @returns Signature in the form "sha256=<hex>"
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  const hmac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${hmac}`;
+}
@@ -0,0 +1,219 @@
+import { Queue, Worker, Job, UnrecoverableError } from 'bullmq';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookDelivery, WebhookPayload } from '../types';
+import { connection } from './redis';
+import { getWebhookSecret, signWebhookPayload } from './webhook-signing';
+import { WEBHOOK } from './constants';
+
+/**
+ * Webhook delivery service
+ *
+ * Finished generation jobs with a callbackUrl are notified through a
+ * dedicated BullMQ queue, so deliveries survive restarts and are retried
+ * with exponential backoff. Every attempt is appended to a per-job
+ * delivery log in Redis.
+ *
+ * Requests are signed with WEBHOOK_SECRET (see webhook-signing.ts).
+ */
+
+/**
+ * Webhook job data structure
+ */
+interface WebhookJobData {
+  deliveryId: string;
+  url: string;
+  payload: WebhookPayload;
+}
+
+/**
+ * Custom error class for webhook delivery failures
+ */
+class WebhookDeliveryError extends Error {
+  statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// Delivery Log
+// ============================================================================
+
+/**
+ * Redis key holding the delivery log for a job
+ */
+function deliveryLogKey(jobId: string): string {
+  return `${WEBHOOK.QUEUE_NAME}:log:${jobId}`;
+}
+
+/**
+ * Appends an attempt to a job's delivery log, keeping the most recent entries
+ */
+async function recordDelivery(jobId: string, delivery: WebhookDelivery): Promise<void> {
+  const key = deliveryLogKey(jobId);
+  await connection
+    .multi()
+    .rpush(key, JSON.stringify(delivery))
+    .ltrim(key, -WEBHOOK.LOG_MAX_ENTRIES, -1)
+    .expire(key, WEBHOOK.LOG_TTL_SECONDS)
+    .exec();
+}
+
+/**
+ * Gets all recorded delivery attempts for a job, oldest first
+ *
+ * @param jobId - Generation job identifier
+ * @returns Delivery attempts
+ */
+export async function getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]> {
+  const entries = await connection.lrange(deliveryLogKey(jobId), 0, -1);
+  return entries.map((entry) => JSON.parse(entry) as WebhookDelivery);
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * POSTs a signed payload to the callback URL
+ *
+ * @param url - Callback URL
+ * @param deliveryId - Delivery identifier
+ * @param payload - Webhook payload
+ * @returns HTTP status code of a successful delivery
+ * @throws {WebhookDeliveryError} On network errors or non-2xx responses
+ */
+async function postWebhook(url: string, deliveryId: string, payload: WebhookPayload): Promise<number> {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    throw new WebhookDeliveryError('WEBHOOK_SECRET environment variable is not set');
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'product-image-generator-webhooks/1.0',
+        'X-Webhook-Id': deliveryId,
+        'X-Webhook-Event': payload.event,
+        [WEBHOOK.TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK.SIGNATURE_HEADER]: signWebhookPayload(body, timestamp, secret),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK.TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Network error';
+    throw new WebhookDeliveryError(message);
+  }
+
+  if (!response.ok) {
+    throw new WebhookDeliveryError(`Receiver responded with ${response.status}`, response.status);
+  }
+
+  return response.status;
+}
+
+/**
+ * Whether a failed delivery should be retried
+ * Network errors, timeouts, 408, 429 and 5xx are transient; other 4xx are not
+ */
+function isRetryable(error: WebhookDeliveryError): boolean {
+  const { statusCode } = error;
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * The Webhook Queue (Producer)
+ */
+export const webhookQueue = new Queue<WebhookJobData>(WEBHOOK.QUEUE_NAME, { connection });
+
+/**
+ * The Webhook Worker (Consumer)
+ * Performs one delivery attempt per run; BullMQ handles retries and backoff
+ */
+export const webhookWorker = new Worker<WebhookJobData>(
+  WEBHOOK.QUEUE_NAME,
+  async (job: Job<WebhookJobData>) => {
+    const { deliveryId, url, payload } = job.data;
+    const attempt = job.attemptsMade + 1;
+    const startTime = Date.now();
+
+    const delivery: WebhookDelivery = {
+      deliveryId,
+      event: payload.event,
+      url,
+      attempt,
+      success: false,
+      durationMs: 0,
+      attemptedAt: new Date(startTime).toISOString(),
+    };
+
+    try {
+      delivery.statusCode = await postWebhook(url, deliveryId, payload);
+      delivery.success = true;
+      console.log(`[Webhook] Delivered ${payload.event} for job ${payload.jobId} (attempt ${attempt})`);
+    } catch (error) {
+      const deliveryError = error instanceof WebhookDeliveryError
+        ? error
+        : new WebhookDeliveryError(error instanceof Error ? error.message : 'Unknown error');
+      delivery.statusCode = deliveryError.statusCode;
+      delivery.error = deliveryError.message;
+      console.warn(`[Webhook] Delivery of ${payload.event} for job ${payload.jobId} failed (attempt ${attempt}): ${deliveryError.message}`);
+
+      delivery.durationMs = Date.now() - startTime;
+      await recordDelivery(payload.jobId, delivery);
+
+      // Client errors will not succeed on retry
+      if (!isRetryable(deliveryError)) {
+        throw new UnrecoverableError(deliveryError.message);
+      }
+      throw deliveryError;
+    }
+
+    delivery.durationMs = Date.now() - startTime;
+    await recordDelivery(payload.jobId, delivery);
+  },
+  { connection }
+);
+
+webhookWorker.on('error', (err: Error) => {
+  console.error(`[Webhook] Worker error:`, err);
+});
+
+/**
+ * Queues a webhook delivery for a finished generation job
+ *
+ * @param url - Callback URL
+ * @param payload - Webhook payload
+ * @returns Delivery identifier
+ */
+export async function enqueueWebhook(url: string, payload: WebhookPayload): Promise<string> {
+  const deliveryId = uuidv4();
+
+  await webhookQueue.add(
+    payload.event,
+    { deliveryId, url, payload },
+    {
+      attempts: WEBHOOK.MAX_ATTEMPTS,
+      backoff: {
+        type: 'exponential',
+        delay: WEBHOOK.BACKOFF_DELAY_MS,
+        jitter: WEBHOOK.BACKOFF_JITTER,
+      },
+      removeOnComplete: true,
+      removeOnFail: true,
+    }
+  );
+
+  console.log(`[Webhook] Queued ${payload.event} for job ${payload.jobId} -> ${url}`);
+  return deliveryId;
+}
@@ -0,0 +1,180 @@
+import express, { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { BatchItem, BatchProduct, BatchRowError } from '../types';
+import { imageQueue } from '../lib/queue-redis';
+import { validateGenerateRequest, ValidationError } from '../lib/validation';
+import {
+  parseBatchFeed,
+  createBatch,
+  discardBatch,
+  saveBatchItems,
+  getBatchStatus,
+  getBatchManifest,
+} from '../lib/batches';
+import { BATCH } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * POST /api/batches
+ * Generate images for a whole product feed
+ * 
+ * Accepts CSV (Content-Type: text/csv, header row required) or JSON
+ * (an array of products or `{ "products": [...] }`). Every row is validated
+ * like a single /api/generate request. If any row is invalid the batch is
+ * rejected with row-level errors, unless `?skipInvalid=true` is given, in
+ * which case only the valid rows are queued and the errors are reported.
+ * 
+ * Each valid row becomes one generation job under a shared batch id.
+ * 
+ * @route POST /api/batches
+ * @query {boolean} skipInvalid - Queue valid rows even if some rows are invalid
+ * @returns Batch id, queued jobs and row errors
+ */
+router.post(
+  '/',
+  express.text({ type: ['text/csv', 'application/csv'], limit: BATCH.MAX_BODY_SIZE }),
+  async (req: Request, res: Response) => {
+    try {
+      const isCsv = typeof req.body === 'string';
+      const rows = parseBatchFeed(req.body, isCsv);
+
+      if (rows.length === 0) {
+        return res.status(400).json({ success: false, error: 'Batch contains no rows' });
+      }
+
+      if (rows.length > BATCH.MAX_ROWS) {
+        return res.status(400).json({
+          success: false,
+          error: `Batch must not exceed ${BATCH.MAX_ROWS} rows`,
+        });
+      }
+
+      // Validate every row before queueing anything
+      const errors: BatchRowError[] = [];
+      const validRows: { row: number; product: BatchProduct }[] = [];
+
+      rows.forEach((raw, index) => {
+        const row = index + 1;
+        const sku = raw && typeof raw === 'object' ? (raw as BatchProduct).sku : undefined;
+        try {
+          const product = validateGenerateRequest(raw) as BatchProduct;
+          validRows.push({ row, product });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Invalid row';
+          errors.push({ row, sku, error: message });
+        }
+      });
+
+      const skipInvalid = req.query.skipInvalid === 'true';
+
+      if (errors.length > 0 && (!skipInvalid || validRows.length === 0)) {
+        console.warn(`[Batch] Rejected feed: ${errors.length}/${rows.length} invalid rows`);
+        return res.status(400).json({
+          success: false,
+          error: `${errors.length} of ${rows.length} rows are invalid`,
+          errors,
+        });
+      }
+
+      const batchId = await createBatch(validRows.length);
+      console.log(`[Batch] Batch ${batchId}: queueing ${validRows.length} jobs (${errors.length} rows skipped)`);
+
+      // Fan out into one generation job per row, queued atomically so the
+      // batch never waits on rows that were not queued
+      let jobs;
+      try {
+        jobs = await imageQueue.addBulk(validRows.map(({ row, product }) => {
+          const { sku, ...request } = product;
+          return {
+            name: 'generate',
+            data: { ...request, requestId: uuidv4(), batch: { id: batchId, row, sku } },
+          };
+        }));
+      } catch (error) {
+        await discardBatch(batchId).catch((err) => {
+          console.error(`[Batch] Failed to discard batch ${batchId}:`, err);
+        });
+        throw error;
+      }
+
+      const items: BatchItem[] = jobs.map((job, index) => ({
+        row: validRows[index].row,
+        sku: validRows[index].product.sku,
+        jobId: job.id as string,
+      }));
+
+      await saveBatchItems(batchId, items);
+
+      return res.status(202).json({
+        success: true,
+        batchId,
+        total: items.length,
+        items,
+        errors,
+        statusUrl: `/api/batches/${batchId}`,
+        manifestUrl: `/api/batches/${batchId}/manifest`,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      console.error('[Batch] Error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return res.status(500).json({ success: false, error: errorMessage });
+    }
+  }
+);
+
+/**
+ * GET /api/batches/:id
+ * Get aggregate progress of a batch
+ * 
+ * @route GET /api/batches/:id
+ * @returns {BatchStatusResponse} Batch status
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const status = await getBatchStatus(req.params.id);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Batch not found' });
+    }
+    return res.json(status);
+  } catch (error) {
+    console.error('[Batch] Status error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/batches/:id/manifest
+ * Get the combined result manifest of a finished batch
+ * 
+ * @route GET /api/batches/:id/manifest
+ * @returns {BatchManifest} Per-row results, in feed order
+ */
+router.get('/:id/manifest', async (req: Request, res: Response) => {
+  try {
+    const manifest = await getBatchManifest(req.params.id);
+    if (manifest) {
+      return res.json({ success: true, manifest });
+    }
+
+    const status = await getBatchStatus(req.params.id);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Batch not found' });
+    }
+    return res.status(409).json({
+      success: false,
+      error: `Batch is still processing (${status.percent}% done)`,
+    });
+  } catch (error) {
+    console.error('[Batch] Manifest error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
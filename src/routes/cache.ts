@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { clearResultCache, getResultCacheStats } from '../lib/result-cache';
+
+const router = Router();
+
+/**
+ * GET /api/cache
+ * Result cache configuration and hit/miss counters
+ *
+ * @route GET /api/cache
+ * @returns {ResultCacheStats} Cache statistics
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const stats = await getResultCacheStats();
+    return res.json({ success: true, ...stats });
+  } catch (error) {
+    console.error('[Cache] Stats error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * DELETE /api/cache
+ * Empty the result cache and reset its counters
+ *
+ * @route DELETE /api/cache
+ * @returns Number of cached images removed
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    const removed = await clearResultCache();
+    return res.json({ success: true, removed });
+  } catch (error) {
+    console.error('[Cache] Clear error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
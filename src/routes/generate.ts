@@ -1,62 +1,21 @@
 import { Router, Request, Response } from 'express';
-import { GenerateRequest, GenerateResponse, GenerationMetadata } from '../types';
-import { imageQueue, queueEvents } from '../lib/queue-redis';
+import { JobAcceptedResponse } from '../types';
+import { imageQueue, queueEvents, toJobState } from '../lib/queue-redis';
 import { validateGenerateRequest, ValidationError, getDescriptionPreview } from '../lib/validation';
-import { IMAGE_LIMITS } from '../lib/constants';
+import { createErrorResponse, createSuccessResponse } from '../lib/responses';
+import { resolveResolution } from '../lib/ai-provider';
+import { resolveModel } from '../lib/providers';
+import { resolveJobSettings } from '../lib/pipeline';
+import {
+  resolveIdempotentJobId,
+  isValidIdempotencyKey,
+  IdempotencyConflictError,
+} from '../lib/idempotency';
+import { IMAGE_LIMITS, IDEMPOTENCY } from '../lib/constants';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
-/**
- * Creates an error response with consistent structure
- * 
- * @param error - Error message
- * @param processingTime - Time taken before error occurred
- * @returns Formatted error response
- */
-function createErrorResponse(error: string, processingTime: number = 0): GenerateResponse {
-  return {
-    success: false,
-    images: [],
-    metadata: {
-      prompt: '',
-      settings: {
-        numImages: IMAGE_LIMITS.DEFAULT_IMAGES,
-        resolution: IMAGE_LIMITS.DEFAULT_RESOLUTION,
-      },
-    },
-    error,
-  };
-}
-
-/**
- * Creates a success response with consistent structure
- * 
- * @param images - Generated images array
- * @param prompt - The optimized prompt used
- * @param numImages - Number of images generated
- * @param resolution - Resolution used
- * @returns Formatted success response
- */
-function createSuccessResponse(
-  images: any[],
-  prompt: string,
-  numImages: 1 | 2 | 3 | 4,
-  resolution: '512x512' | '768x768' | '1024x1024'
-): GenerateResponse {
-  return {
-    success: true,
-    images,
-    metadata: {
-      prompt,
-      settings: {
-        numImages,
-        resolution,
-      },
-    },
-  };
-}
-
 /**
  * POST /api/generate
  * Generate product images from description
@@ -64,9 +23,18 @@ function createSuccessResponse(
  * Validates the request, queues the image generation job,
  * and waits for completion before returning the results.
  * 
+ * With `?async=true` the job id is returned immediately (202) and
+ * the result can be polled from GET /api/jobs/:id instead.
+ * 
+ * With an `Idempotency-Key` header, retries carrying the same key and body
+ * attach to the original job (or return its stored result) instead of
+ * queueing a new one. Reusing a key with a different body returns 409.
+ * 
  * @route POST /api/generate
+ * @header {string} Idempotency-Key - Optional client-generated key for safe retries
+ * @query {boolean} async - Return immediately instead of waiting for the job
  * @body {GenerateRequest} request - Generation request parameters
- * @returns {GenerateResponse} Generated images and metadata
+ * @returns {GenerateResponse | JobAcceptedResponse} Generated images and metadata, or the queued job
  */
 router.post('/', async (req: Request, res: Response) => {
   const startTime = Date.now();
@@ -81,7 +49,8 @@ router.post('/', async (req: Request, res: Response) => {
     const angle = validatedRequest.angle || 'front';
     const color = validatedRequest.color;
     const numImages = validatedRequest.settings?.numImages || IMAGE_LIMITS.DEFAULT_IMAGES;
-    const resolution = validatedRequest.settings?.resolution || IMAGE_LIMITS.DEFAULT_RESOLUTION;
+    const model = resolveModel(validatedRequest.model, validatedRequest.provider);
+    const resolution = resolveResolution(validatedRequest.settings, model);
 
     // Log generation request
     const descPreview = getDescriptionPreview(validatedRequest.description);
@@ -90,15 +59,49 @@ router.post('/', async (req: Request, res: Response) => {
       `${color ? ` (${color})` : ''} [${category}/${style}/${angle}]`
     );
 
-    // Add job to Redis Queue with unique ID
-    const job = await imageQueue.add('generate', {
+    // Map the idempotency key (if any) to a deterministic job ID
+    const idempotencyKey = req.get(IDEMPOTENCY.HEADER);
+    let jobId: string | undefined;
+    let replayed = false;
+
+    if (idempotencyKey !== undefined) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        throw new ValidationError(
+          `${IDEMPOTENCY.HEADER} must be 1-${IDEMPOTENCY.MAX_KEY_LENGTH} printable ASCII characters`
+        );
+      }
+      ({ jobId, replayed } = await resolveIdempotentJobId(idempotencyKey, validatedRequest));
+    }
+
+    // Attach to the existing job on a replay, otherwise add a new one to the Redis Queue
+    const existingJob = replayed && jobId ? await imageQueue.getJob(jobId) : undefined;
+    const settings = { ...validatedRequest.settings, numImages, resolution };
+    const job = existingJob || await imageQueue.add('generate', {
       ...validatedRequest,
       requestId: uuidv4(),
       category,
       style,
       angle,
-      settings: { numImages, resolution },
-    });
+      settings,
+    }, { jobId });
+
+    if (existingJob) {
+      console.log(`[Generate] Idempotent replay, attaching to job ${job.id}`);
+      res.set('Idempotent-Replayed', 'true');
+    }
+
+    // Async mode: hand back the job id and let the client poll
+    if (req.query.async === 'true') {
+      console.log(`[Generate] Job ${job.id} queued (async)`);
+      const accepted: JobAcceptedResponse = {
+        success: true,
+        jobId: job.id as string,
+        state: existingJob ? toJobState(existingJob, await existingJob.getState()) : 'waiting',
+        statusUrl: `/api/jobs/${job.id}`,
+        eventsUrl: `/api/jobs/${job.id}/events`,
+      };
+      return res.status(202).json(accepted);
+    }
 
     console.log(`[Generate] Job ${job.id} queued. Waiting for completion...`);
 
@@ -109,10 +112,10 @@ router.post('/', async (req: Request, res: Response) => {
     console.log(`[Generate] Job ${job.id} completed in ${processingTime}ms`);
 
     // Extract data from worker result
-    const { images, prompt } = result;
+    const { images, prompt, variants } = result;
 
     // Return success response with metadata structure
-    return res.json(createSuccessResponse(images, prompt, numImages, resolution));
+    return res.json(createSuccessResponse(images, prompt, model, resolveJobSettings(job.data), variants));
 
   } catch (error) {
     const processingTime = Date.now() - startTime;
@@ -123,6 +126,12 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json(createErrorResponse(error.message, processingTime));
     }
 
+    // Handle idempotency key reuse with a different body
+    if (error instanceof IdempotencyConflictError) {
+      console.warn(`[Generate] Idempotency conflict: ${error.message}`);
+      return res.status(409).json(createErrorResponse(error.message, processingTime));
+    }
+
     // Handle general errors
     console.error('[Generate] Error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
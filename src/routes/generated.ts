@@ -0,0 +1,108 @@
+import { Router, Request, Response } from 'express';
+import { getContentType, getImageETag, getImageMetadata, isSafeFilename, readDerivative, readImage } from '../lib/image-storage';
+import { STORAGE } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * GET /generated/:filename/metadata
+ * Get the provenance record of a generated image
+ * 
+ * Returns how the image was made: model, prompt, negative prompt,
+ * guidance scale, steps, seed, resolution, logo settings, detection
+ * result and timestamps.
+ * 
+ * @route GET /generated/:filename/metadata
+ * @returns The image's provenance metadata
+ */
+router.get('/:filename/metadata', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const metadata = await getImageMetadata(filename);
+    if (!metadata) {
+      return res.status(404).json({
+        success: false,
+        error: 'No provenance metadata recorded for this image',
+      });
+    }
+
+    return res.json({ success: true, filename, metadata });
+  } catch (error) {
+    console.error('[Generated] Metadata lookup error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /generated/derivatives/:filename
+ * Serve a resized copy of a generated image from storage
+ * 
+ * Same caching headers as GET /generated/:filename.
+ * 
+ * @route GET /generated/derivatives/:filename
+ */
+router.get('/derivatives/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const derivative = await readDerivative(filename);
+    if (!derivative) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    return res
+      .type(getContentType(filename))
+      .set({ 'Cache-Control': STORAGE.CACHE_CONTROL, ETag: getImageETag(filename) })
+      .send(derivative);
+  } catch (error) {
+    console.error('[Generated] Derivative lookup error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /generated/:filename
+ * Serve a generated image from storage
+ * 
+ * Serves every storage backend, so images kept in object storage need no
+ * public bucket URL. Filenames are never reused, so responses carry a
+ * strong ETag and an immutable Cache-Control.
+ * 
+ * @route GET /generated/:filename
+ */
+router.get('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const image = await readImage(filename);
+    if (!image) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    return res
+      .type(getContentType(filename))
+      .set({ 'Cache-Control': STORAGE.CACHE_CONTROL, ETag: getImageETag(filename) })
+      .send(image);
+  } catch (error) {
+    console.error('[Generated] Image lookup error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { GenerationHistoryPage } from '../types';
+import { queryGenerations, getGenerationRecord } from '../lib/history';
+import { validateHistoryQuery, ValidationError } from '../lib/validation';
+
+const router = Router();
+
+/**
+ * GET /api/generations
+ * Search generation history, newest first
+ * 
+ * Every finished job (completed, failed, cancelled or timed out) is recorded with its
+ * request, prompt, images and timings. Results are paged with an opaque
+ * cursor: pass `nextCursor` from the previous page to continue.
+ * 
+ * @route GET /api/generations
+ * @query {string} category - Product category
+ * @query {string} style - Image style (matches variant matrix requests that include it)
+ * @query {string} angle - Camera angle (matches variant matrix requests that include it)
+ * @query {string} from - Queued at or after (ISO 8601 or epoch ms)
+ * @query {string} to - Queued at or before (ISO 8601 or epoch ms)
+ * @query {string} q - Case-insensitive text search in the description
+ * @query {number} limit - Page size
+ * @query {string} cursor - Cursor returned by the previous page
+ * @returns {GenerationHistoryPage} Matching generations and the next cursor
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = validateHistoryQuery(req.query);
+    const { records, nextCursor } = await queryGenerations(query);
+
+    const page: GenerationHistoryPage = {
+      success: true,
+      generations: records,
+      nextCursor,
+    };
+    return res.json(page);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[Generations] History search error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/generations/:id
+ * Get a single generation record
+ * 
+ * @route GET /api/generations/:id
+ * @returns The generation record
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const record = await getGenerationRecord(req.params.id);
+    if (!record) {
+      return res.status(404).json({ success: false, error: 'Generation not found' });
+    }
+    return res.json({ success: true, generation: record });
+  } catch (error) {
+    console.error('[Generations] Lookup error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
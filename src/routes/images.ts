@@ -0,0 +1,261 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { JobAcceptedResponse, StoredFile } from '../types';
+import { imageQueue } from '../lib/queue-redis';
+import {
+  deleteImage,
+  getImageBatchId,
+  getImageInfo,
+  getImageMetadata,
+  inspectImage,
+  isSafeFilename,
+  listGeneratedImages,
+  readImage,
+} from '../lib/image-storage';
+import { getBatchManifest } from '../lib/batches';
+import { resolveModel } from '../lib/providers';
+import { STORAGE } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * Collects the generated images belonging to a batch
+ * 
+ * Matches both the storage batch ID in image filenames and, for product
+ * feed batches (see /api/batches), every image listed in the batch manifest.
+ * 
+ * @param batchId - Storage batch ID or product feed batch ID
+ * @returns Filenames of the batch's images that are still stored
+ */
+async function findBatchImages(batchId: string): Promise<string[]> {
+  const filenames = new Set(
+    (await listGeneratedImages()).filter((filename) => getImageBatchId(filename) === batchId)
+  );
+
+  const manifest = await getBatchManifest(batchId);
+  for (const entry of manifest?.entries || []) {
+    for (const image of entry.images) {
+      if (await getImageInfo(image.filename)) {
+        filenames.add(image.filename);
+      }
+    }
+  }
+
+  return [...filenames];
+}
+
+/**
+ * GET /api/images
+ * List generated images, newest first
+ * 
+ * @route GET /api/images
+ * @query {string} batchId - Only images of this batch (storage or product feed batch ID)
+ * @returns Stored images with size and creation date
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { batchId } = req.query;
+    if (batchId !== undefined && typeof batchId !== 'string') {
+      return res.status(400).json({ success: false, error: 'batchId must be a string' });
+    }
+
+    const filenames = batchId ? await findBatchImages(batchId) : await listGeneratedImages();
+    const images = (await Promise.all(filenames.map(getImageInfo)))
+      .filter((image): image is StoredFile => image !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return res.json({ success: true, total: images.length, images });
+  } catch (error) {
+    console.error('[Images] List error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * DELETE /api/images?batchId=...
+ * Delete every image of a batch, along with their metadata
+ * 
+ * @route DELETE /api/images
+ * @query {string} batchId - Storage batch ID or product feed batch ID (required)
+ * @returns Deleted filenames
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    const { batchId } = req.query;
+    if (typeof batchId !== 'string' || batchId.length === 0) {
+      return res.status(400).json({ success: false, error: 'batchId query parameter is required' });
+    }
+
+    const filenames = await findBatchImages(batchId);
+    if (filenames.length === 0) {
+      return res.status(404).json({ success: false, error: 'No images found for this batch' });
+    }
+
+    const deleted: string[] = [];
+    for (const filename of filenames) {
+      if (await deleteImage(filename)) {
+        deleted.push(filename);
+      }
+    }
+    console.log(`[Images] Deleted ${deleted.length}/${filenames.length} images of batch ${batchId}`);
+
+    return res.json({ success: true, batchId, deleted });
+  } catch (error) {
+    console.error('[Images] Bulk delete error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/images/:filename
+ * Inspect a generated image: dimensions, size and creation date
+ * 
+ * @route GET /api/images/:filename
+ * @returns Image details and the URL of its provenance metadata
+ */
+router.get('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const image = await inspectImage(filename);
+    if (!image) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    return res.json({
+      success: true,
+      image,
+      batchId: getImageBatchId(filename),
+      metadataUrl: (await getImageMetadata(filename)) ? `/${STORAGE.GENERATED_PREFIX}/${filename}/metadata` : undefined,
+    });
+  } catch (error) {
+    console.error('[Images] Inspect error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/images/:filename/download
+ * Download a generated image as an attachment
+ * 
+ * @route GET /api/images/:filename/download
+ */
+router.get('/:filename/download', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const image = await readImage(filename);
+    if (!image) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    return res.attachment(filename).send(image);
+  } catch (error) {
+    console.error('[Images] Download error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to download image' });
+  }
+});
+
+/**
+ * DELETE /api/images/:filename
+ * Delete a generated image and its metadata
+ * 
+ * @route DELETE /api/images/:filename
+ */
+router.delete('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+    if (!(await getImageInfo(filename))) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+    if (!(await deleteImage(filename))) {
+      return res.status(500).json({ success: false, error: 'Failed to delete image' });
+    }
+
+    return res.json({ success: true, filename });
+  } catch (error) {
+    console.error('[Images] Delete error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * POST /api/images/:filename/regenerate
+ * Regenerate an image from its recorded parameters
+ * 
+ * Replays the exact prompt, negative prompt, model parameters, seed and
+ * logo of a previously generated image as a new single-image job.
+ * The job is queued asynchronously; poll or stream it via /api/jobs/:id.
+ * Images from models that ignore seeds cannot be reproduced and are
+ * rejected with 422.
+ * 
+ * @route POST /api/images/:filename/regenerate
+ * @returns {JobAcceptedResponse} The queued regeneration job
+ */
+router.post('/:filename/regenerate', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const metadata = await getImageMetadata(filename);
+    if (!metadata) {
+      return res.status(404).json({
+        success: false,
+        error: 'No generation parameters recorded for this image',
+      });
+    }
+
+    const { resolution, detection, jobId: sourceJobId, generatedAt, createdAt, derivatives, logo, ...replay } = metadata;
+
+    const model = resolveModel(replay.modelId, replay.provider);
+    if (replay.seed === undefined || !model.capabilities.seed) {
+      return res.status(422).json({
+        success: false,
+        error: `Model ${model.id} does not support seeds, so this image cannot be reproduced`,
+      });
+    }
+
+    const job = await imageQueue.add('generate', {
+      description: replay.prompt,
+      requestId: uuidv4(),
+      logo,
+      replay,
+    });
+
+    console.log(`[Images] Regenerating ${filename} (seed ${replay.seed}) as job ${job.id}`);
+
+    const accepted: JobAcceptedResponse = {
+      success: true,
+      jobId: job.id as string,
+      state: 'waiting',
+      statusUrl: `/api/jobs/${job.id}`,
+      eventsUrl: `/api/jobs/${job.id}/events`,
+    };
+    return res.status(202).json(accepted);
+  } catch (error) {
+    console.error('[Images] Regenerate error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
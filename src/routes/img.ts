@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express';
+import { getContentType, getImageETag, isSafeFilename, readImage } from '../lib/image-storage';
+import { getOutputExtension, getOutputFormat } from '../lib/image-encoding';
+import { transformImage } from '../lib/image-transform';
+import { validateImageTransform, ValidationError } from '../lib/validation';
+import { STORAGE } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * GET /img/:filename
+ * Serve a generated image, resized and re-encoded on the fly
+ *
+ * Without parameters the image is served as saved. Results are cached
+ * per instance, and since the source never changes they carry a strong
+ * ETag and an immutable Cache-Control; If-None-Match gets a 304.
+ *
+ * @route GET /img/:filename
+ * @query {number} w - Width in pixels
+ * @query {number} h - Height in pixels
+ * @query {string} fit - cover, contain, fill, inside or outside (needs w and h; default cover)
+ * @query {string} format - png, jpeg, webp or avif (defaults to the image's own)
+ * @query {number} q - Quality 1-100 for jpeg, webp and avif
+ * @query {string} bg - Hex background (RRGGBB or RRGGBBAA) for letterboxing and jpeg
+ */
+router.get('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    const sourceFormat = isSafeFilename(filename) ? getOutputFormat(filename) : null;
+    if (!sourceFormat) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const transform = validateImageTransform(req.query, sourceFormat);
+    res.set('Cache-Control', STORAGE.CACHE_CONTROL);
+
+    if (Object.keys(transform).length === 0) {
+      const image = await readImage(filename);
+      if (!image) {
+        return res.status(404).json({ success: false, error: 'Image not found' });
+      }
+      return res.type(getContentType(filename)).set('ETag', getImageETag(filename)).send(image);
+    }
+
+    const transformed = await transformImage(filename, transform, sourceFormat);
+    if (!transformed) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    // send() answers 304 when If-None-Match matches the ETag
+    return res
+      .type(STORAGE.CONTENT_TYPES[getOutputExtension(transformed.format)])
+      .set('ETag', `"${transformed.key}"`)
+      .send(transformed.buffer);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[Img] Transform error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
@@ -0,0 +1,289 @@
+import { Router, Request, Response } from 'express';
+import { Job } from 'bullmq';
+import { GenerationJobState, GenerationProgress, GenerationRecord, JobStatusResponse } from '../types';
+import {
+  imageQueue,
+  queueEvents,
+  cancelGenerationJob,
+  toJobState,
+} from '../lib/queue-redis';
+import { getJobModel, JobData, resolveJobSettings, WorkerResult } from '../lib/pipeline';
+import { getGenerationRecord } from '../lib/history';
+import { createSuccessResponse } from '../lib/responses';
+import { getWebhookDeliveries } from '../lib/webhooks';
+import { PROGRESS } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * Formats an optional epoch timestamp as ISO string
+ */
+function toIsoString(timestamp?: number): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+/**
+ * Builds the status payload for a job
+ *
+ * @param job - Queue job
+ * @returns Job status response
+ */
+async function buildJobStatus(job: Job<JobData, WorkerResult>): Promise<JobStatusResponse> {
+  const state = toJobState(job, await job.getState());
+  const status: JobStatusResponse = {
+    success: true,
+    jobId: job.id as string,
+    state,
+    progress: job.progress,
+    createdAt: new Date(job.timestamp).toISOString(),
+    startedAt: toIsoString(job.processedOn),
+    finishedAt: toIsoString(job.finishedOn),
+  };
+
+  if (state === 'completed' && job.returnvalue) {
+    const { images, prompt, variants } = job.returnvalue;
+    status.result = createSuccessResponse(images, prompt, getJobModel(job.data), resolveJobSettings(job.data), variants);
+  }
+
+  if (state === 'failed' || state === 'cancelled' || state === 'timed_out') {
+    status.failedReason = job.failedReason;
+  }
+
+  return status;
+}
+
+/**
+ * Builds the status payload of a job cancelled before it started
+ * Such jobs are removed from the queue; their history record remains
+ *
+ * @param record - History record of the job
+ * @returns Job status response
+ */
+function buildCancelledStatus(record: GenerationRecord): JobStatusResponse {
+  return {
+    success: true,
+    jobId: record.id,
+    state: 'cancelled',
+    progress: 0,
+    failedReason: record.error,
+    createdAt: record.timings.queuedAt,
+    finishedAt: record.timings.finishedAt,
+  };
+}
+
+/**
+ * Gets the status of a job, including jobs cancelled before they started
+ *
+ * @param jobId - Job identifier
+ * @returns Job status, or null if the job does not exist
+ */
+async function getJobStatus(jobId: string): Promise<JobStatusResponse | null> {
+  const job = await imageQueue.getJob(jobId);
+  if (job) {
+    return buildJobStatus(job);
+  }
+
+  const record = await getGenerationRecord(jobId);
+  return record?.status === 'cancelled' ? buildCancelledStatus(record) : null;
+}
+
+/**
+ * GET /api/jobs/:id
+ * Get the state, progress and result of a generation job
+ *
+ * @route GET /api/jobs/:id
+ * @returns {JobStatusResponse} Job status
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const status = await getJobStatus(req.params.id);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    return res.json(status);
+  } catch (error) {
+    console.error('[Jobs] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/jobs/:id/webhooks
+ * Get the webhook delivery log for a job
+ *
+ * Lists every delivery attempt, including failed attempts that were retried.
+ *
+ * @route GET /api/jobs/:id/webhooks
+ * @returns Delivery attempts, oldest first
+ */
+router.get('/:id/webhooks', async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.id;
+    const deliveries = await getWebhookDeliveries(jobId);
+    return res.json({ success: true, jobId, deliveries });
+  } catch (error) {
+    console.error('[Jobs] Webhook log error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * Writes a single Server-Sent Event
+ *
+ * @param res - Response stream
+ * @param event - Event name
+ * @param data - JSON-serializable payload
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Whether a job state is terminal
+ */
+function isFinished(state: GenerationJobState): boolean {
+  return state === 'completed' || state === 'failed' || state === 'cancelled' || state === 'timed_out';
+}
+
+/**
+ * GET /api/jobs/:id/events
+ * Stream job progress as Server-Sent Events
+ *
+ * Events:
+ * - `progress` - GenerationProgress on every stage change
+ * - `image`    - A finished image, as soon as it is saved
+ * - `completed` / `failed` / `cancelled` / `timed_out` - Final JobStatusResponse, then the stream closes
+ *
+ * The current status is sent as a `progress` (or final) event on connect,
+ * so clients joining late do not miss images produced earlier.
+ *
+ * @route GET /api/jobs/:id/events
+ */
+router.get('/:id/events', async (req: Request, res: Response) => {
+  const jobId = req.params.id;
+
+  const job = await imageQueue.getJob(jobId).catch(() => undefined);
+  if (!job) {
+    const record = await getGenerationRecord(jobId).catch(() => null);
+    if (record?.status !== 'cancelled') {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    // Cancelled before it started: send the final event right away
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    writeEvent(res, 'cancelled', buildCancelledStatus(record));
+    return res.end();
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), PROGRESS.SSE_HEARTBEAT_MS);
+
+  const onProgress = ({ jobId: eventJobId, data }: { jobId: string; data: unknown }) => {
+    if (eventJobId !== jobId) return;
+    writeEvent(res, 'progress', data);
+    const latestImage = (data as GenerationProgress).latestImage;
+    if (latestImage) {
+      writeEvent(res, 'image', latestImage);
+    }
+  };
+
+  const onFinished = async ({ jobId: eventJobId }: { jobId: string }) => {
+    if (eventJobId !== jobId) return;
+    await sendFinalAndClose();
+  };
+
+  const cleanup = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    queueEvents.off('progress', onProgress);
+    queueEvents.off('completed', onFinished);
+    queueEvents.off('failed', onFinished);
+    queueEvents.off('removed', onFinished);
+  };
+
+  const sendFinalAndClose = async () => {
+    if (closed) return;
+    cleanup();
+    try {
+      const status = await getJobStatus(jobId);
+      if (status) {
+        writeEvent(res, status.state, status);
+      } else {
+        // Removed while waiting, i.e. cancelled before it started
+        writeEvent(res, 'cancelled', { success: true, jobId, state: 'cancelled' });
+      }
+    } catch (error) {
+      console.error('[Jobs] Event stream error:', error);
+    }
+    res.end();
+  };
+
+  // Subscribe before reading the current state so no transition is missed
+  queueEvents.on('progress', onProgress);
+  queueEvents.on('completed', onFinished);
+  queueEvents.on('failed', onFinished);
+  queueEvents.on('removed', onFinished);
+  req.on('close', cleanup);
+
+  try {
+    const status = await buildJobStatus(job);
+    if (isFinished(status.state)) {
+      await sendFinalAndClose();
+    } else if (!closed) {
+      writeEvent(res, 'progress', status.progress);
+    }
+  } catch (error) {
+    console.error('[Jobs] Event stream error:', error);
+    if (!closed) {
+      cleanup();
+      res.end();
+    }
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a waiting or active generation job
+ *
+ * Waiting jobs are removed from the queue and reported as 'cancelled' from
+ * their history record; active jobs abort the work in flight (provider
+ * calls, object detection) and end in the 'cancelled' state.
+ *
+ * @route DELETE /api/jobs/:id
+ * @returns Cancellation outcome
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  const jobId = req.params.id;
+
+  try {
+    const result = await cancelGenerationJob(jobId);
+
+    switch (result) {
+      case 'not_found':
+        return res.status(404).json({ success: false, error: 'Job not found' });
+      case 'already_finished':
+        return res.status(409).json({ success: false, error: 'Job has already finished' });
+      case 'not_owned':
+        return res.status(409).json({ success: false, error: 'Job is running on another worker' });
+      case 'removed':
+        return res.json({ success: true, jobId, state: 'cancelled' });
+      case 'cancelled':
+        return res.status(202).json({ success: true, jobId, state: 'active' });
+    }
+  } catch (error) {
+    console.error('[Jobs] Cancel error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
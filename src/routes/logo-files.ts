@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import { getContentType, isSafeLogoFilename, readLogo } from '../lib/image-storage';
+import { STORAGE } from '../lib/constants';
+
+const router = Router();
+
+/**
+ * GET /logos/:filename
+ * Serve an uploaded logo from storage
+ * 
+ * Local storage is served statically before this route is reached; this
+ * serves logos kept in object storage when no public bucket URL is set.
+ * 
+ * @route GET /logos/:filename
+ */
+router.get('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeLogoFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const logo = await readLogo(filename);
+    if (!logo) {
+      return res.status(404).json({ success: false, error: 'Logo not found' });
+    }
+
+    return res.type(getContentType(filename)).set('Cache-Control', STORAGE.CACHE_CONTROL).send(logo);
+  } catch (error) {
+    console.error('[Logos] File lookup error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { StoredFile } from '../types';
+import {
+  deleteLogo,
+  getLogoInfo,
+  inspectLogo,
+  isSafeLogoFilename,
+  listLogos,
+  readLogo,
+} from '../lib/image-storage';
+
+const router = Router();
+
+/**
+ * GET /api/logos
+ * List uploaded logos, newest first
+ * 
+ * Logos are uploaded via POST /api/upload-logo.
+ * 
+ * @route GET /api/logos
+ * @returns Stored logos with size and creation date
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const logos = (await Promise.all((await listLogos()).map(getLogoInfo)))
+      .filter((logo): logo is StoredFile => logo !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return res.json({ success: true, total: logos.length, logos });
+  } catch (error) {
+    console.error('[Logos] List error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/logos/:filename
+ * Inspect an uploaded logo: dimensions, size and creation date
+ * 
+ * @route GET /api/logos/:filename
+ * @returns Logo details
+ */
+router.get('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeLogoFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const logo = await inspectLogo(filename);
+    if (!logo) {
+      return res.status(404).json({ success: false, error: 'Logo not found' });
+    }
+
+    return res.json({ success: true, logo });
+  } catch (error) {
+    console.error('[Logos] Inspect error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * GET /api/logos/:filename/download
+ * Download an uploaded logo as an attachment
+ * 
+ * @route GET /api/logos/:filename/download
+ */
+router.get('/:filename/download', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeLogoFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+
+    const logo = await readLogo(filename);
+    if (!logo) {
+      return res.status(404).json({ success: false, error: 'Logo not found' });
+    }
+
+    return res.attachment(filename).send(logo);
+  } catch (error) {
+    console.error('[Logos] Download error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to download logo' });
+  }
+});
+
+/**
+ * DELETE /api/logos/:filename
+ * Delete an uploaded logo
+ * 
+ * Images already generated with the logo are not affected.
+ * 
+ * @route DELETE /api/logos/:filename
+ */
+router.delete('/:filename', async (req: Request, res: Response) => {
+  const { filename } = req.params;
+
+  try {
+    if (!isSafeLogoFilename(filename)) {
+      return res.status(400).json({ success: false, error: 'Invalid filename' });
+    }
+    if (!(await getLogoInfo(filename))) {
+      return res.status(404).json({ success: false, error: 'Logo not found' });
+    }
+    if (!(await deleteLogo(filename))) {
+      return res.status(500).json({ success: false, error: 'Failed to delete logo' });
+    }
+
+    return res.json({ success: true, filename });
+  } catch (error) {
+    console.error('[Logos] Delete error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
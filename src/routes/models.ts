@@ -0,0 +1,32 @@
+import { Router, Request, Response } from 'express';
+import { getDefaultModel, getDefaultProviderName, getProvider, listModels } from '../lib/providers';
+
+const router = Router();
+
+/**
+ * GET /api/models
+ * List the selectable models, for building a model picker
+ *
+ * Each model reports its provider, supported resolutions, default and
+ * allowed sampling parameters, capabilities and relative cost, plus
+ * whether its provider is configured on this server.
+ *
+ * @route GET /api/models
+ * @returns Models and the id of the one used when a request names none
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const models = listModels().map((model) => ({
+      ...model,
+      available: getProvider(model.provider).isConfigured(),
+    }));
+    const defaultModel = getDefaultModel(getProvider(getDefaultProviderName())).id;
+    return res.json({ success: true, defaultModel, models });
+  } catch (error) {
+    console.error('[Models] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
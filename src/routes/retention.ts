@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { getLastRetentionReport, getRetentionPolicy, hasRetentionLimits, sweepStorage } from '../lib/retention';
+
+const router = Router();
+
+/**
+ * GET /api/admin/retention
+ * Retention policy and the report of the last sweep
+ *
+ * @route GET /api/admin/retention
+ * @returns Policy, whether the periodic sweep runs, and the last report
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const policy = getRetentionPolicy();
+    const lastSweep = await getLastRetentionReport();
+    return res.json({ success: true, enabled: hasRetentionLimits(policy), policy, lastSweep });
+  } catch (error) {
+    console.error('[Retention] Status error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+/**
+ * POST /api/admin/retention/sweep
+ * Enforce the retention policy now
+ *
+ * @route POST /api/admin/retention/sweep
+ * @query {boolean} dryRun - Only report what would be removed
+ * @returns {RetentionReport} Removed files and reclaimed space
+ */
+router.post('/sweep', async (req: Request, res: Response) => {
+  try {
+    const report = await sweepStorage({ dryRun: req.query.dryRun === 'true' });
+    if (!report) {
+      return res.status(409).json({ success: false, error: 'A retention sweep is already running' });
+    }
+    return res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[Retention] Sweep error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return res.status(500).json({ success: false, error: errorMessage });
+  }
+});
+
+export default router;
@@ -34,7 +34,7 @@ const upload = multer({
  * 
  * @returns Logo URL and filename
  */
-router.post('/', upload.single('logo'), (req: Request, res: Response) => {
+router.post('/', upload.single('logo'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -46,7 +46,7 @@ router.post('/', upload.single('logo'), (req: Request, res: Response) => {
     console.log(`[Upload Logo] Uploading file: ${req.file.originalname} (${req.file.size} bytes)`);
 
     // Save logo file
-    const { filename, url } = saveLogoFile(req.file.buffer, req.file.originalname);
+    const { filename, url } = await saveLogoFile(req.file.buffer, req.file.originalname);
 
     console.log(`[Upload Logo] File uploaded successfully: ${filename}`);
 
@@ -1,37 +1,63 @@
+// Load environment variables before any module reads them at import time
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
-import dotenv from 'dotenv';
 import generateRouter from './routes/generate';
 import uploadLogoRouter from './routes/upload-logo';
-import { ensureGeneratedDir, ensureLogosDir } from './lib/image-storage';
+import jobsRouter from './routes/jobs';
+import batchesRouter from './routes/batches';
+import imagesRouter from './routes/images';
+import generationsRouter from './routes/generations';
+import generatedRouter from './routes/generated';
+import imgRouter from './routes/img';
+import logosRouter from './routes/logos';
+import logoFilesRouter from './routes/logo-files';
+import cacheRouter from './routes/cache';
+import modelsRouter from './routes/models';
+import retentionRouter from './routes/retention';
+import { getStorage } from './lib/storage';
 import { startKeepAlive } from './lib/keep-alive';
-
-// Load environment variables
-dotenv.config();
+import { startRetentionSweeper } from './lib/retention';
+import { getProviderHealth } from './lib/providers';
+import { BATCH, STORAGE } from './lib/constants';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: BATCH.MAX_BODY_SIZE }));
+
+// Serve logos in local storage statically; generated images always go through their routes
+app.use(`/${STORAGE.LOGOS_PREFIX}`, express.static(path.join(process.cwd(), STORAGE.LOCAL_DIR, STORAGE.LOGOS_PREFIX)));
 
-// Serve static files from public directory (for generated images and logos)
-app.use(express.static(path.join(process.cwd(), 'public')));
+// Generated images with their provenance metadata, and logos kept in object storage
+app.use('/generated', generatedRouter);
+app.use('/logos', logoFilesRouter);
 
-// Ensure directories exist
-ensureGeneratedDir();
-ensureLogosDir();
+// Generated images resized and re-encoded on the fly
+app.use('/img', imgRouter);
 
 // Health check endpoint
+// Reports each image provider's circuit breaker; degraded when no configured provider is usable
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  const providers = getProviderHealth();
+  const usable = providers.some((provider) => provider.configured && provider.circuit.state !== 'open');
+  res.json({ status: usable ? 'ok' : 'degraded', timestamp: new Date().toISOString(), providers });
 });
 
 // API Routes
 app.use('/api/generate', generateRouter);
 app.use('/api/upload-logo', uploadLogoRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/batches', batchesRouter);
+app.use('/api/images', imagesRouter);
+app.use('/api/generations', generationsRouter);
+app.use('/api/logos', logosRouter);
+app.use('/api/cache', cacheRouter);
+app.use('/api/models', modelsRouter);
+app.use('/api/admin/retention', retentionRouter);
 
 // 404 handler
 app.use((req, res) => {
@@ -51,13 +77,41 @@ app.listen(PORT, () => {
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 Server running at: http://localhost:${PORT}
+Storage backend: ${getStorage().name}
 
 Endpoints:
-  POST /api/generate     - Generate product images
+  POST /api/generate     - Generate product images (?async=true to queue only)
+  GET  /api/jobs/:id     - Job status and result
+  GET  /api/jobs/:id/events - Live job progress (Server-Sent Events)
+  GET  /api/jobs/:id/webhooks - Webhook delivery log
+  DELETE /api/jobs/:id   - Cancel a queued or running job
+  POST /api/batches      - Generate images for a CSV/JSON product feed
+  GET  /api/batches/:id  - Batch progress
+  GET  /api/batches/:id/manifest - Combined batch results
+  GET  /api/generations  - Search generation history (paged)
+  GET  /api/generations/:id - Generation record
+  GET  /api/images       - List generated images (?batchId= to filter)
+  GET  /api/images/:filename - Image details (dimensions, size, created date)
+  GET  /api/images/:filename/download - Download an image
+  DELETE /api/images/:filename - Delete an image
+  DELETE /api/images?batchId= - Delete all images of a batch
+  POST /api/images/:filename/regenerate - Regenerate an image from its seed and parameters
   POST /api/upload-logo  - Upload logo file
-  GET  /health           - Health check
+  GET  /api/logos        - List uploaded logos
+  GET  /api/logos/:filename - Logo details
+  GET  /api/logos/:filename/download - Download a logo
+  DELETE /api/logos/:filename - Delete a logo
+  GET  /api/cache        - Result cache hit/miss counters
+  DELETE /api/cache      - Empty the result cache
+  GET  /api/models       - Selectable models and their capabilities
+  GET  /api/admin/retention - Retention policy and last sweep report
+  POST /api/admin/retention/sweep - Remove expired files now (?dryRun=true to only report)
+  GET  /health           - Health check (provider circuit breaker states)
 
 Generated images served at: /generated/{filename}
+Image provenance served at: /generated/{filename}/metadata
+Resized copies served at: /generated/derivatives/{filename}
+Transformed images served at: /img/{filename}?w=&h=&fit=&format=&q=&bg=
 Logo files served at: /logos/{filename}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -65,6 +119,9 @@ Logo files served at: /logos/{filename}
 
   // Start keep-alive cron (only activates on Render)
   startKeepAlive();
+
+  // Start the retention sweeper (only activates when limits are configured)
+  startRetentionSweeper();
 });
 
 export default app;
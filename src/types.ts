@@ -40,14 +40,108 @@ export type CameraAngle =
   | 'wide'        // Wide angle showing context
   | 'eye_level';  // Eye-level straight on
 
+/**
+ * Supported image resolutions ("WIDTHxHEIGHT")
+ */
+export type Resolution =
+  | '512x512'
+  | '768x768'
+  | '1024x1024'
+  | '1024x1280'   // 4:5
+  | '768x1024'    // 3:4
+  | '1024x576'    // 16:9
+  | '576x1024';   // 9:16
+
+/**
+ * Aspect-ratio presets, each mapped to a resolution
+ */
+export type AspectRatio = '1:1' | '4:5' | '3:4' | '16:9' | '9:16';
+
 /**
  * Generation settings configuration
  */
 export interface GenerationSettings {
-  /** Number of images to generate (1-4) */
-  numImages?: 1 | 2 | 3 | 4;
+  /**
+   * Number of images to generate (1-4)
+   * In variant matrix mode this is per variant, capped by the total image limit
+   */
+  numImages?: number;
   /** Image resolution */
-  resolution?: '512x512' | '768x768' | '1024x1024';
+  resolution?: Resolution;
+  /** Aspect-ratio preset, used instead of resolution (defaults to the default resolution) */
+  aspectRatio?: AspectRatio;
+  /** Base seed for reproducible output; image i uses seed + i (random when omitted) */
+  seed?: number;
+  /** Reuse the images of an identical earlier request with the same seed (default true; unseeded requests are never cached) */
+  cache?: boolean;
+  /** Classifier-free guidance scale, within the model's bounds (default 7.5) */
+  guidanceScale?: number;
+  /** Number of denoising steps, within the model's bounds (default 30) */
+  numInferenceSteps?: number;
+  /** Sampling scheduler (defaults to the model's own) */
+  scheduler?: Scheduler;
+  /** File format and encoding of the saved images (defaults to PNG) */
+  output?: OutputSettings;
+  /** Resized copies to save with each image (defaults to the DERIVATIVE_* env settings) */
+  derivatives?: DerivativeSettings;
+}
+
+/**
+ * Image file formats
+ */
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+/**
+ * Chroma subsampling of lossy formats
+ */
+export type ChromaSubsampling = '4:2:0' | '4:4:4';
+
+/**
+ * How saved images are encoded
+ */
+export interface OutputSettings {
+  /** File format (default png) */
+  format?: OutputFormat;
+  /** Encoder quality 1-100 for jpeg, webp and avif (defaults per format) */
+  quality?: number;
+  /** Chroma subsampling for jpeg and avif (default 4:2:0) */
+  chromaSubsampling?: ChromaSubsampling;
+  /** Drop all embedded metadata, including provenance (default false; the sidecar is always written) */
+  stripMetadata?: boolean;
+}
+
+/**
+ * Resized copies saved with each image
+ * Every width is produced in every format; widths above the image's own are skipped
+ */
+export interface DerivativeSettings {
+  /** Widths in pixels; an empty list disables derivatives */
+  widths?: number[];
+  /** Formats (defaults to the image's output format) */
+  formats?: OutputFormat[];
+}
+
+/**
+ * How a resized image fills the requested box (see sharp's resize fit)
+ */
+export type TransformFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+/**
+ * On-the-fly transformation of a generated image (GET /img/:filename)
+ */
+export interface ImageTransform {
+  /** Target width in pixels (keeps the aspect ratio when height is unset) */
+  width?: number;
+  /** Target height in pixels (keeps the aspect ratio when width is unset) */
+  height?: number;
+  /** How the image fills width × height (default cover) */
+  fit?: TransformFit;
+  /** File format (defaults to the image's own) */
+  format?: OutputFormat;
+  /** Encoder quality 1-100 for jpeg, webp and avif (defaults per format) */
+  quality?: number;
+  /** Hex color (RGB or RGBA) behind letterboxing and transparency in formats without alpha */
+  background?: string;
 }
 
 /**
@@ -58,16 +152,118 @@ export interface GenerateRequest {
   description: string;
   /** Product category (optional, defaults to 'other') */
   category?: ProductCategory;
-  /** Image style (optional, defaults to 'studio') */
-  style?: ImageStyle;
-  /** Camera angle (optional, defaults to 'front') */
-  angle?: CameraAngle;
-  /** Specific color for the product (optional) */
-  color?: string;
+  /** Image style, or several styles for a variant matrix (optional, defaults to 'studio') */
+  style?: ImageStyle | ImageStyle[];
+  /** Camera angle, or several angles for a variant matrix (optional, defaults to 'front') */
+  angle?: CameraAngle | CameraAngle[];
+  /** Specific color, or several colors for a variant matrix (optional) */
+  color?: string | string[];
   /** Generation settings (optional) */
   settings?: GenerationSettings;
   /** Logo overlay settings (optional) */
   logo?: LogoSettings;
+  /** URL notified with a signed webhook when the job finishes (optional) */
+  callbackUrl?: string;
+  /** Image generation backend (optional, defaults to the IMAGE_PROVIDER env setting) */
+  provider?: ImageProviderName;
+  /** Model id from GET /api/models (optional, defaults to the provider's default model) */
+  model?: string;
+}
+
+/**
+ * Image generation backends
+ * 'mock' renders offline placeholder images for development and tests
+ */
+export type ImageProviderName = 'huggingface' | 'replicate' | 'openai' | 'mock';
+
+/**
+ * Circuit breaker state of a provider
+ * - closed: calls go through
+ * - open: calls are skipped until the cooldown ends
+ * - half_open: one trial call decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker status of a provider, as reported by /health
+ */
+export interface CircuitStatus {
+  /** Current state */
+  state: CircuitState;
+  /** Failure rate over the recent call window (0-1) */
+  failureRate: number;
+  /** Calls in the recent call window */
+  calls: number;
+  /** ISO timestamp when the circuit last opened */
+  openedAt?: string;
+  /** ISO timestamp when an open circuit allows a trial call */
+  retryAt?: string;
+}
+
+/**
+ * Sampling schedulers, mapped by each provider to its backend's names
+ */
+export type Scheduler =
+  | 'ddim'
+  | 'dpm_multistep'
+  | 'euler'
+  | 'euler_ancestral'
+  | 'heun'
+  | 'karras_dpm'
+  | 'pndm';
+
+/**
+ * Inclusive bounds of a numeric model parameter
+ */
+export interface ParameterRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Generation parameters an image provider honours
+ */
+export interface ProviderCapabilities {
+  /** Accepts a negative prompt */
+  negativePrompt: boolean;
+  /** Accepts a seed, so images can be reproduced */
+  seed: boolean;
+  /** Accepts a guidance scale */
+  guidanceScale: boolean;
+  /** Accepts a number of inference steps */
+  inferenceSteps: boolean;
+}
+
+/**
+ * A model that can be selected for generation, as listed by GET /api/models
+ */
+export interface ImageModel {
+  /** Identifier used in requests, e.g. "sdxl-base" */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Backend the model runs on */
+  provider: ImageProviderName;
+  /** Model identifier on the backend */
+  model: string;
+  /** Generation parameters the model honours; others are ignored */
+  capabilities: ProviderCapabilities;
+  /** Resolutions ("WIDTHxHEIGHT") the model can produce */
+  supportedResolutions: readonly string[];
+  /** Guidance scale and steps used when a request sets none */
+  defaults: {
+    guidanceScale: number;
+    inferenceSteps: number;
+  };
+  /** Accepted guidance scale and step counts (only checked where the capability is set) */
+  limits: {
+    guidanceScale: ParameterRange;
+    inferenceSteps: ParameterRange;
+  };
+  /** Schedulers the model can sample with */
+  schedulers: readonly Scheduler[];
+  /** Cost per image relative to SDXL base on HuggingFace (1) */
+  relativeCost: number;
 }
 
 /**
@@ -154,6 +350,106 @@ export interface GeneratedImage {
   url: string;
   /** Filename of the generated image */
   filename: string;
+  /** Variant key (style/angle[/color]) in variant matrix mode */
+  variant?: string;
+  /** Seed the image was generated with */
+  seed?: number;
+  /** Provider that produced the image (may be a fallback) */
+  provider?: ImageProviderName;
+  /**
+   * Resized copies for responsive images (srcset), smallest first
+   * Not to be confused with `variant`, the variant matrix key
+   */
+  variants?: ImageDerivative[];
+}
+
+/**
+ * A resized copy of a generated image
+ */
+export interface ImageDerivative {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** File format */
+  format: OutputFormat;
+  /** File size in bytes */
+  bytes: number;
+  /** URL of the file */
+  url: string;
+  /** Filename of the file */
+  filename: string;
+}
+
+/**
+ * Provenance of a generated image: everything needed to reproduce it exactly
+ * Stored as a JSON sidecar alongside each saved image
+ */
+export interface ImageMetadata {
+  /** Backend the image was generated with (absent on images from before providers were pluggable) */
+  provider?: ImageProviderName;
+  /** Model the image was generated with */
+  model: string;
+  /** Registry id of the model (absent on images from before models were selectable) */
+  modelId?: string;
+  /** Positive prompt sent to the model */
+  prompt: string;
+  /** Negative prompt sent to the model */
+  negativePrompt: string;
+  /** Seed sent to the model (absent for models that ignore seeds, whose images cannot be reproduced) */
+  seed?: number;
+  /** Requested width in pixels */
+  width: number;
+  /** Requested height in pixels */
+  height: number;
+  /** Requested resolution, e.g. "1024x1024" */
+  resolution: string;
+  /** Classifier-free guidance scale */
+  guidanceScale: number;
+  /** Number of denoising steps */
+  numInferenceSteps: number;
+  /** Sampling scheduler, if one was requested */
+  scheduler?: Scheduler;
+  /** Encoding of the saved file (absent on images saved before formats were selectable, which are PNG) */
+  output?: OutputSettings;
+  /** Resized copies saved with the image, removed along with it */
+  derivatives?: ImageDerivative[];
+  /** Logo overlay applied after generation, if any */
+  logo?: LogoSettings;
+  /** Product detected for smart logo positioning, if detection ran and found one */
+  detection?: DetectedObject;
+  /** Queue job that produced the image */
+  jobId: string;
+  /** ISO timestamp when the model returned the image */
+  generatedAt: string;
+  /** ISO timestamp when the image was saved */
+  createdAt: string;
+}
+
+/**
+ * One style × angle × color combination of a variant matrix request
+ */
+export interface GenerationVariant {
+  /** Variant key: "style/angle" or "style/angle/color" */
+  key: string;
+  /** Image style */
+  style: ImageStyle;
+  /** Camera angle */
+  angle: CameraAngle;
+  /** Product color, if specified */
+  color?: string;
+}
+
+/**
+ * Images generated for one variant of a variant matrix request
+ */
+export interface VariantGroup extends GenerationVariant {
+  /** The optimized prompt used for this variant */
+  prompt: string;
+  /** Generated images for this variant */
+  images: GeneratedImage[];
+  /** Error message if this variant failed */
+  error?: string;
 }
 
 /**
@@ -163,10 +459,32 @@ export interface GeneratedImage {
 export interface GenerationMetadata {
   /** The optimized prompt used for generation */
   prompt: string;
+  /** Id of the model requested for generation (absent on errors) */
+  model?: string;
   /** Settings used for generation */
   settings: GenerationSettings;
 }
 
+/**
+ * A generated image or logo file in storage
+ */
+export interface StoredFile {
+  /** Filename within its storage directory */
+  filename: string;
+  /** Public URL */
+  url: string;
+  /** File size in bytes */
+  size: number;
+  /** ISO timestamp when the file was written */
+  createdAt: string;
+  /** Pixel width (single-file lookups only) */
+  width?: number;
+  /** Pixel height (single-file lookups only) */
+  height?: number;
+  /** Image format (single-file lookups only) */
+  format?: string;
+}
+
 /**
  * API Response payload for image generation
  * Aligned with frontend expectations
@@ -176,12 +494,338 @@ export interface GenerateResponse {
   success: boolean;
   /** Array of generated images */
   images: GeneratedImage[];
+  /** Images grouped by variant (variant matrix requests only) */
+  variants?: VariantGroup[];
   /** Generation metadata */
   metadata: GenerationMetadata;
   /** Error message if generation failed */
   error?: string;
 }
 
+/**
+ * Lifecycle state of a queued generation job
+ * Mirrors BullMQ job states, plus 'cancelled' for jobs stopped via the API
+ * and 'timed_out' for jobs that ran past their deadline
+ */
+export type GenerationJobState =
+  | 'waiting'
+  | 'delayed'
+  | 'active'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'timed_out'
+  | 'unknown';
+
+/**
+ * Pipeline stage reported by the worker while processing a job
+ */
+export type GenerationStage =
+  | 'queued'
+  | 'optimizing_prompt'
+  | 'generating'
+  | 'retrying'
+  | 'detecting'
+  | 'applying_logo'
+  | 'saving'
+  | 'image_ready'
+  | 'image_failed'
+  | 'completed';
+
+/**
+ * Progress payload published by the worker via BullMQ job progress
+ */
+export interface GenerationProgress {
+  /** Current pipeline stage */
+  stage: GenerationStage;
+  /** Overall completion percentage (0-100) */
+  percent: number;
+  /** Human-readable description of the current step */
+  message: string;
+  /** Number of images that are finished and saved */
+  completedImages: number;
+  /** Number of images that failed and were skipped */
+  failedImages: number;
+  /** Number of images requested */
+  totalImages: number;
+  /** Images finished so far, in completion order */
+  images: GeneratedImage[];
+  /** The image that just finished (only on 'image_ready') */
+  latestImage?: GeneratedImage;
+}
+
+/**
+ * API Response payload when a generation job is accepted asynchronously
+ */
+export interface JobAcceptedResponse {
+  /** Whether the job was queued */
+  success: boolean;
+  /** Queue job identifier used for polling and cancellation */
+  jobId: string;
+  /** State of the job at the time of queueing */
+  state: GenerationJobState;
+  /** Relative URL for polling the job status */
+  statusUrl: string;
+  /** Relative URL for streaming job progress (Server-Sent Events) */
+  eventsUrl: string;
+}
+
+/**
+ * API Response payload for job status polling
+ */
+export interface JobStatusResponse {
+  /** Whether the status lookup was successful */
+  success: boolean;
+  /** Queue job identifier */
+  jobId: string;
+  /** Current job state */
+  state: GenerationJobState;
+  /** Job progress as reported by the worker */
+  progress: GenerationProgress | number | string | boolean | object;
+  /** Generation result, present once the job has completed */
+  result?: GenerateResponse;
+  /** Failure reason, present if the job failed or was cancelled */
+  failedReason?: string;
+  /** ISO timestamp when the job was queued */
+  createdAt: string;
+  /** ISO timestamp when a worker picked the job up */
+  startedAt?: string;
+  /** ISO timestamp when the job completed, failed or was cancelled */
+  finishedAt?: string;
+  /** Error message if the lookup failed */
+  error?: string;
+}
+
+/**
+ * A single product row in a batch feed
+ * Same shape as a generation request, plus an optional SKU for matching results
+ */
+export interface BatchProduct extends GenerateRequest {
+  /** Merchant SKU or other identifier (optional) */
+  sku?: string;
+}
+
+/**
+ * Validation error for one row of a batch feed
+ */
+export interface BatchRowError {
+  /** 1-based row number in the feed (excluding the CSV header) */
+  row: number;
+  /** SKU of the row, if provided */
+  sku?: string;
+  /** Validation error message */
+  error: string;
+}
+
+/**
+ * A batch row that was queued as a generation job
+ */
+export interface BatchItem {
+  /** 1-based row number in the feed */
+  row: number;
+  /** SKU of the row, if provided */
+  sku?: string;
+  /** Queue job identifier */
+  jobId: string;
+}
+
+/**
+ * Final outcome of one batch row
+ */
+export interface BatchManifestEntry extends BatchItem {
+  /** Final job state */
+  state: GenerationStatus;
+  /** Generated images (empty unless completed) */
+  images: GeneratedImage[];
+  /** The optimized prompt used */
+  prompt: string;
+  /** Failure reason (failed/cancelled/timed out only) */
+  error?: string;
+}
+
+/**
+ * Combined result manifest produced when every job in a batch has finished
+ */
+export interface BatchManifest {
+  /** Batch identifier */
+  batchId: string;
+  /** ISO timestamp when the batch was created */
+  createdAt: string;
+  /** ISO timestamp when the last job finished */
+  finishedAt: string;
+  /** Number of rows queued */
+  total: number;
+  /** Number of rows that produced images */
+  succeeded: number;
+  /** Number of rows that failed, were cancelled or timed out */
+  failed: number;
+  /** Per-row results, in feed order */
+  entries: BatchManifestEntry[];
+}
+
+/**
+ * API Response payload for batch status polling
+ */
+export interface BatchStatusResponse {
+  /** Whether the status lookup was successful */
+  success: boolean;
+  /** Batch identifier */
+  batchId: string;
+  /** 'processing' until every job has finished */
+  state: 'processing' | 'completed';
+  /** Number of rows queued */
+  total: number;
+  /** Number of jobs that completed successfully */
+  completed: number;
+  /** Number of jobs that failed, were cancelled or timed out */
+  failed: number;
+  /** Overall completion percentage (0-100) */
+  percent: number;
+  /** Queued rows and their job IDs */
+  items: BatchItem[];
+  /** ISO timestamp when the batch was created */
+  createdAt: string;
+  /** ISO timestamp when the last job finished */
+  finishedAt?: string;
+  /** Relative URL of the result manifest */
+  manifestUrl: string;
+}
+
+/**
+ * Final status of a recorded generation
+ */
+export type GenerationStatus = 'completed' | 'failed' | 'cancelled' | 'timed_out';
+
+/**
+ * Persistent record of one generation job
+ */
+export interface GenerationRecord {
+  /** Record identifier (the queue job ID) */
+  id: string;
+  /** Request tracking ID assigned when the job was queued */
+  requestId: string;
+  /** Final job status */
+  status: GenerationStatus;
+  /** Original request inputs */
+  request: Pick<GenerateRequest, 'description' | 'category' | 'style' | 'angle' | 'color' | 'provider' | 'model'>;
+  /** Registry id of the model the job ran with (absent on records from before models were selectable) */
+  model?: string;
+  /** The optimized prompt used (first variant for matrix requests) */
+  prompt: string;
+  /** The negative prompt used */
+  negativePrompt: string;
+  /** Settings the job ran with, defaults and regenerated images' recorded parameters filled in */
+  settings: GenerationSettings;
+  /** Seed of each generated image, in image order (completed jobs only) */
+  seeds?: number[];
+  /** Logo overlay settings, if any */
+  logo?: LogoSettings;
+  /** Generated images */
+  images: GeneratedImage[];
+  /** Images grouped by variant (variant matrix requests only) */
+  variants?: VariantGroup[];
+  /** Failure reason (failed/cancelled/timed out only) */
+  error?: string;
+  /** Parent batch ID, for jobs queued from a product feed */
+  batchId?: string;
+  /** Job timings */
+  timings: {
+    /** ISO timestamp when the job was queued */
+    queuedAt: string;
+    /** ISO timestamp when a worker picked the job up */
+    startedAt?: string;
+    /** ISO timestamp when the job finished */
+    finishedAt: string;
+    /** Time spent waiting in the queue, in milliseconds */
+    queueMs?: number;
+    /** Time spent processing, in milliseconds */
+    processingMs?: number;
+  };
+}
+
+/**
+ * Filters for searching generation history
+ */
+export interface GenerationHistoryQuery {
+  /** Only records for this category */
+  category?: ProductCategory;
+  /** Only records that used this style */
+  style?: ImageStyle;
+  /** Only records that used this angle */
+  angle?: CameraAngle;
+  /** Only records queued at or after this time */
+  from?: Date;
+  /** Only records queued at or before this time */
+  to?: Date;
+  /** Case-insensitive substring match on the description */
+  text?: string;
+  /** Maximum records per page */
+  limit: number;
+  /** Opaque cursor returned by the previous page */
+  cursor?: string;
+}
+
+/**
+ * API Response payload for a page of generation history
+ */
+export interface GenerationHistoryPage {
+  /** Whether the lookup was successful */
+  success: boolean;
+  /** Matching records, newest first */
+  generations: GenerationRecord[];
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Webhook event types sent to callback URLs
+ */
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'job.cancelled' | 'job.timed_out';
+
+/**
+ * Payload POSTed to a request's callback URL when its job finishes
+ */
+export interface WebhookPayload {
+  /** Event type */
+  event: WebhookEvent;
+  /** Queue job identifier */
+  jobId: string;
+  /** Request tracking ID assigned when the job was queued */
+  requestId: string;
+  /** Generated images (empty unless completed) */
+  images: GeneratedImage[];
+  /** The optimized prompt used (empty if the job failed before generation) */
+  prompt: string;
+  /** Failure reason (failed/cancelled/timed out only) */
+  error?: string;
+  /** ISO timestamp when the event occurred */
+  timestamp: string;
+}
+
+/**
+ * Record of a single webhook delivery attempt
+ */
+export interface WebhookDelivery {
+  /** Unique ID of the delivery, shared by all attempts (X-Webhook-Id) */
+  deliveryId: string;
+  /** Event type delivered */
+  event: WebhookEvent;
+  /** Target URL */
+  url: string;
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Whether the receiver acknowledged with a 2xx status */
+  success: boolean;
+  /** HTTP status returned by the receiver, if any */
+  statusCode?: number;
+  /** Network or HTTP error message, if the attempt failed */
+  error?: string;
+  /** Attempt duration in milliseconds */
+  durationMs: number;
+  /** ISO timestamp of the attempt */
+  attemptedAt: string;
+}
+
 /**
  * Optimized prompt result from prompt optimizer
  */
@@ -192,3 +836,79 @@ export interface OptimizedPrompt {
   negativePrompt: string;
 }
 
+/**
+ * Result cache configuration and counters
+ */
+export interface ResultCacheStats {
+  /** Whether the cache is enabled (RESULT_CACHE env setting) */
+  enabled: boolean;
+  /** Lifetime of cached images in seconds */
+  ttlSeconds: number;
+  /** Requests served from the cache */
+  hits: number;
+  /** Requests that had to generate images */
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+  /** Images currently stored */
+  cachedImages: number;
+}
+
+/**
+ * Retention policy for stored images and logos
+ */
+export interface RetentionPolicy {
+  /** Files older than this many days are removed; 0 keeps files regardless of age */
+  maxAgeDays: number;
+  /** Oldest files are removed while the total exceeds this many bytes; 0 for no limit */
+  maxTotalBytes: number;
+  /** Whether files referenced by generation history are never removed */
+  keepReferenced: boolean;
+}
+
+/**
+ * Why a file was removed by the retention sweeper
+ */
+export type RetentionReason = 'max_age' | 'max_total_bytes';
+
+/**
+ * A file removed (or, in a dry run, that would be removed) by the retention sweeper
+ */
+export interface SweptFile {
+  /** Generated image or uploaded logo */
+  kind: 'image' | 'logo';
+  /** Filename within its storage directory */
+  filename: string;
+  /** Size in bytes, including an image's metadata sidecar and resized copies */
+  size: number;
+  /** ISO timestamp when the file was written */
+  createdAt: string;
+  /** Rule that selected the file */
+  reason: RetentionReason;
+}
+
+/**
+ * Outcome of a retention sweep
+ */
+export interface RetentionReport {
+  /** Whether files were only reported, not deleted */
+  dryRun: boolean;
+  /** Policy the sweep enforced */
+  policy: RetentionPolicy;
+  /** ISO timestamp when the sweep started */
+  startedAt: string;
+  /** ISO timestamp when the sweep finished */
+  finishedAt: string;
+  /** Files examined and their total size */
+  scanned: { files: number; bytes: number };
+  /** Files kept because generation history references them */
+  referenced: number;
+  /** Files removed (or that would be removed) */
+  deleted: SweptFile[];
+  /** Bytes freed (or that would be freed) */
+  reclaimedBytes: number;
+  /** Files that could not be deleted */
+  failed: string[];
+  /** Files and bytes left after the sweep */
+  remaining: { files: number; bytes: number };
+}